@@ -0,0 +1,225 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { GameConfig, getGameConfig } from "./config";
+import { sendBatches } from "./notify_pushover";
+import { Match, SCHEMA_VERSION, queueEntryConverter } from "./schema";
+
+const db = admin.firestore();
+
+/**
+ * Abandonment record of a user, readable by the app to show when the user
+ * may queue again.
+ * Document path: player_penalties/{userId}
+ * @param {string} userId The user id
+ * @return {admin.firestore.DocumentReference} The penalty document reference
+ */
+export function penaltyRef(userId: string): admin.firestore.DocumentReference {
+  return db.collection("player_penalties").doc(userId);
+}
+
+/**
+ * Abandonment score after exponential decay since its last update.
+ * @param {admin.firestore.DocumentData} penalty The penalty document data
+ * @param {number} nowMs The current time
+ * @param {GameConfig} config Decay half-life
+ * @return {number} The decayed score
+ */
+function decayedScore(
+  penalty: admin.firestore.DocumentData | undefined,
+  nowMs: number,
+  config: GameConfig
+): number {
+  const score: number = penalty?.score ?? 0;
+  const updatedAtMs: number = penalty?.updated_at?.toMillis?.() ?? nowMs;
+  const elapsedHours = Math.max(0, nowMs - updatedAtMs) / (60 * 60 * 1000);
+  return score * Math.pow(0.5, elapsedHours / config.abandon_decay_hours);
+}
+
+/**
+ * Queue cooldown for an abandonment score: none below the threshold, then
+ * doubling with every further point up to the configured maximum.
+ * @param {number} score The abandonment score
+ * @param {GameConfig} config Cooldown tuning
+ * @return {number} The cooldown in ms
+ */
+function cooldownMs(score: number, config: GameConfig): number {
+  if (score < config.abandon_cooldown_threshold) return 0;
+  const steps = Math.floor(score - config.abandon_cooldown_threshold);
+  const seconds = Math.min(
+    config.abandon_cooldown_base_seconds * Math.pow(2, steps),
+    config.abandon_cooldown_max_seconds
+  );
+  return seconds * 1000;
+}
+
+/**
+ * Counts a match a user abandoned before it started and starts a queue
+ * cooldown when they do it repeatedly. Recording the same match twice, e.g.
+ * by the expiry sweeper and the delete it causes, counts once.
+ * @param {string} userId The user who abandoned the match
+ * @param {string} matchId The abandoned match
+ * @return {Promise<admin.firestore.Timestamp | null>} End of the cooldown
+ */
+export async function recordAbandonment(
+  userId: string,
+  matchId: string
+): Promise<admin.firestore.Timestamp | null> {
+  const config = await getGameConfig(userId);
+  const ref = penaltyRef(userId);
+
+  return db.runTransaction(async (tx) => {
+    const penalty = (await tx.get(ref)).data();
+    if (penalty?.last_abandoned_match === matchId) {
+      return penalty.cooldown_until ?? null;
+    }
+
+    const now = admin.firestore.Timestamp.now();
+    const score = decayedScore(penalty, now.toMillis(), config) + 1;
+    const cooldown = cooldownMs(score, config);
+    const cooldownUntil =
+      cooldown > 0
+        ? admin.firestore.Timestamp.fromMillis(now.toMillis() + cooldown)
+        : penalty?.cooldown_until ?? null;
+
+    tx.set(ref, {
+      user_id: userId,
+      score,
+      total_abandons: (penalty?.total_abandons ?? 0) + 1,
+      last_abandoned_match: matchId,
+      last_abandoned_at: now,
+      cooldown_until: cooldownUntil,
+      updated_at: now,
+    });
+
+    logger.info("match_abandoned", {
+      user_id: userId,
+      match_id: matchId,
+      score,
+      cooldown_ms: cooldown,
+    });
+    return cooldownUntil;
+  });
+}
+
+/**
+ * End of a user's queue cooldown if it is still running.
+ * @param {admin.firestore.DocumentSnapshot} penaltySnap The penalty document
+ * @param {admin.firestore.Timestamp} now The current time
+ * @return {admin.firestore.Timestamp | null} The cooldown end, null if none
+ */
+export function activeCooldown(
+  penaltySnap: admin.firestore.DocumentSnapshot,
+  now: admin.firestore.Timestamp
+): admin.firestore.Timestamp | null {
+  const cooldownUntil: admin.firestore.Timestamp | undefined =
+    penaltySnap.data()?.cooldown_until;
+  return cooldownUntil && cooldownUntil.toMillis() > now.toMillis()
+    ? cooldownUntil
+    : null;
+}
+
+/**
+ * Tells a user's devices with a silent message that their queue entry was
+ * removed and when they may queue again.
+ * @param {string} userId The user in cooldown
+ * @param {admin.firestore.Timestamp} cooldownUntil End of the cooldown
+ */
+export async function notifyQueueCooldown(
+  userId: string,
+  cooldownUntil: admin.firestore.Timestamp
+): Promise<void> {
+  const clients = await db
+    .collection("clients")
+    .where("user_id", "==", userId)
+    .get();
+  const tokens = new Set<string>();
+  clients.docs.forEach((doc) => {
+    const token = doc.data().fcm_token;
+    if (typeof token === "string") tokens.add(token);
+  });
+
+  await sendBatches(
+    [...tokens],
+    {
+      data: {
+        type: "queue_cooldown",
+        cooldownUntil: String(cooldownUntil.toMillis()),
+      },
+      android: {
+        priority: "high" as const,
+      },
+      apns: {
+        headers: {
+          "apns-priority": "5",
+        },
+        payload: {
+          aps: {
+            contentAvailable: true,
+          },
+        },
+      },
+    },
+    "queue_cooldown"
+  );
+}
+
+/**
+ * Puts the players left behind by a dodger back into the queue. Their entry
+ * keeps the match creation time as `joined_at`, which is older than anyone
+ * who joined since, so they are matched first. Players who already queued
+ * again, or whose match is too old to still be waiting, are skipped.
+ * @param {string} matchId The discarded match
+ * @param {Match} match The match
+ * @param {string[]} playerIds The dodged players
+ * @return {Promise<number>} Number of requeued players
+ */
+export async function requeueDodgedPlayers(
+  matchId: string,
+  match: Match,
+  playerIds: string[]
+): Promise<number> {
+  if (match.challenge_id) {
+    // Private challenges never came from the queue
+    return 0;
+  }
+
+  const config = await getGameConfig();
+  const createdAt = match.created_at;
+  if (
+    !createdAt ||
+    Date.now() - createdAt.toMillis() > config.queue_ttl_seconds * 1000
+  ) {
+    logger.info("requeue_skipped_match_too_old", { match_id: matchId });
+    return 0;
+  }
+
+  let requeued = 0;
+  for (const playerId of playerIds) {
+    const state = match.player_states[playerId] ?? {};
+    try {
+      await db
+        .collection("match_queue")
+        .doc(playerId)
+        .withConverter(queueEntryConverter)
+        .create({
+          username: state.username ?? null,
+          avatar: state.avatar ?? null,
+          lobby_size: match.lobby_size,
+          joined_at: createdAt,
+          requeued_from_match: matchId,
+          schema_version: SCHEMA_VERSION,
+        });
+      requeued++;
+    } catch (error) {
+      // Already in the queue again
+      logger.info("player_not_requeued", {
+        match_id: matchId,
+        user_id: playerId,
+        error: String(error),
+      });
+    }
+  }
+
+  logger.info("dodged_match_requeued", { match_id: matchId, requeued });
+  return requeued;
+}
@@ -0,0 +1,346 @@
+import * as admin from "firebase-admin";
+import { randomBytes, randomInt } from "crypto";
+import * as logger from "firebase-functions/logger";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { MatchPlayer } from "./match_making";
+import { matchRef } from "./matches";
+import { appendMatchEvent } from "./replays";
+import { Match } from "./schema";
+import {
+  Submission,
+  Verification,
+  readSubmission,
+  submissionRef,
+} from "./submissions";
+
+const db = admin.firestore();
+
+const BOT_ID_PREFIX = "bot_";
+const BOT_NAMES = ["Pixel", "Nova", "Blitz", "Echo", "Quill", "Rook", "Sable"];
+// Bots are rated within this distance of the user they play
+const BOT_RATING_SPREAD = 50;
+const BOT_CHECKPOINTS = 10;
+const ADVANCE_LIMIT = 200;
+
+export interface BotCheckpoint {
+  elapsed_ms: number;
+  progress: number;
+}
+
+// Precomputed when the match is created, stored in the bot's submission record
+export interface BotPlan {
+  checkpoints: BotCheckpoint[];
+  // Null when the bot runs out of time before solving
+  finish_ms: number | null;
+}
+
+/**
+ * Whether a player id belongs to a server-simulated bot.
+ * @param {string} playerId The player id
+ * @return {boolean} Whether the player is a bot
+ */
+export function isBotId(playerId: string): boolean {
+  return playerId.startsWith(BOT_ID_PREFIX);
+}
+
+/**
+ * A new bot rated close to the user it will play.
+ * @param {number} userRating The user's rating
+ * @return {MatchPlayer} The bot player
+ */
+export function createBotPlayer(userRating: number): MatchPlayer {
+  const name = BOT_NAMES[randomInt(BOT_NAMES.length)];
+  return {
+    id: `${BOT_ID_PREFIX}${randomBytes(8).toString("hex")}`,
+    username: `${name}${randomInt(10, 100)}`,
+    avatar: null,
+    rating: userRating + randomInt(-BOT_RATING_SPREAD, BOT_RATING_SPREAD + 1),
+  };
+}
+
+/**
+ * Typical share of the match duration a bot of a rating needs to solve a
+ * puzzle: 110% (usually runs out of time) at 800 down to 40% at 2000.
+ * @param {number} rating The bot's rating
+ * @return {number} The share of the match duration
+ */
+function solveShare(rating: number): number {
+  const t = Math.min(1, Math.max(0, (rating - 800) / 1200));
+  return 1.1 - t * 0.7;
+}
+
+/**
+ * Random positive weights normalized to sum up to a total.
+ * @param {number} count Number of parts
+ * @param {number} total The sum of all parts
+ * @return {number[]} Cumulative sums, the last one equal to `total`
+ */
+function randomCumulative(count: number, total: number): number[] {
+  const weights = Array.from({ length: count }, () => 0.5 + Math.random());
+  const sum = weights.reduce((a, b) => a + b, 0);
+  let running = 0;
+  return weights.map((weight) => {
+    running += weight;
+    return (running / sum) * total;
+  });
+}
+
+/**
+ * Progress curve of a bot: progress comes in uneven bursts with pauses in
+ * between, like a human solving, and the solve time varies around the
+ * typical time for the bot's rating.
+ * @param {number} rating The bot's rating
+ * @param {number} maxDurationSeconds The match duration
+ * @param {number} progressTotal Progress of a solved puzzle
+ * @return {BotPlan} The plan
+ */
+export function planBot(
+  rating: number,
+  maxDurationSeconds: number,
+  progressTotal: number
+): BotPlan {
+  const maxMs = maxDurationSeconds * 1000;
+  const solveMs = Math.round(
+    maxMs * solveShare(rating) * (0.85 + Math.random() * 0.3)
+  );
+  const times = randomCumulative(BOT_CHECKPOINTS, solveMs);
+  const progress = randomCumulative(BOT_CHECKPOINTS, progressTotal);
+
+  const checkpoints = times
+    .map((elapsed, index) => ({
+      elapsed_ms: Math.round(elapsed),
+      progress: Math.round(progress[index]),
+    }))
+    .filter((checkpoint) => checkpoint.elapsed_ms < maxMs);
+
+  return { checkpoints, finish_ms: solveMs < maxMs ? solveMs : null };
+}
+
+interface BotStep {
+  // The bot's submission with the progress it reached
+  submission: Submission;
+  reached: BotCheckpoint[];
+  finished: boolean;
+}
+
+/**
+ * Where a bot's plan puts it at a point of the match.
+ * @param {Submission} submission The bot's submission record
+ * @param {number} startAtMs The match's start_at
+ * @param {number} elapsedMs Time since start_at
+ * @param {admin.firestore.Timestamp} now The current time
+ * @return {BotStep | null} The step, null when the bot has nothing to add
+ */
+function botStep(
+  submission: Submission,
+  startAtMs: number,
+  elapsedMs: number,
+  now: admin.firestore.Timestamp
+): BotStep | null {
+  const plan = submission.bot_plan;
+  if (!plan || submission.finished_at) return null;
+
+  const reached = plan.checkpoints.filter(
+    (checkpoint) =>
+      checkpoint.elapsed_ms <= elapsedMs &&
+      checkpoint.progress > submission.progress
+  );
+  if (reached.length === 0) return null;
+
+  const last = reached[reached.length - 1];
+  const finished = plan.finish_ms !== null && plan.finish_ms <= elapsedMs;
+  const verification: Verification = {
+    status: "verified",
+    reason: "bot",
+    elapsed_ms: plan.finish_ms ?? 0,
+    checked_at: now,
+  };
+  return {
+    submission: {
+      ...submission,
+      progress: last.progress,
+      ...(finished && {
+        finished_at: admin.firestore.Timestamp.fromMillis(
+          startAtMs + (plan.finish_ms ?? 0)
+        ),
+        verification,
+      }),
+    },
+    reached,
+    finished,
+  };
+}
+
+/**
+ * Writes a bot's step to its submission record and logs it for the replay.
+ * @param {admin.firestore.Transaction} tx The transaction
+ * @param {string} matchId The match id
+ * @param {string} botId The bot's player id
+ * @param {BotStep} step The step
+ * @param {number} startAtMs The match's start_at
+ * @param {admin.firestore.Timestamp} now The current time
+ */
+function writeBotStep(
+  tx: admin.firestore.Transaction,
+  matchId: string,
+  botId: string,
+  step: BotStep,
+  startAtMs: number,
+  now: admin.firestore.Timestamp
+): void {
+  const { submission, reached, finished } = step;
+  tx.set(
+    submissionRef(matchId, botId),
+    {
+      progress: submission.progress,
+      ...(finished && {
+        finished_at: submission.finished_at,
+        verification: submission.verification,
+      }),
+      updated_at: now,
+    },
+    { merge: true }
+  );
+  reached.forEach((checkpoint, checkpointIndex) =>
+    appendMatchEvent(
+      tx,
+      matchId,
+      {
+        player_id: botId,
+        type:
+          finished && checkpointIndex === reached.length - 1
+            ? "finish"
+            : "progress",
+        progress: checkpoint.progress,
+        elapsed_ms: checkpoint.elapsed_ms,
+      },
+      admin.firestore.Timestamp.fromMillis(startAtMs + checkpoint.elapsed_ms)
+    )
+  );
+}
+
+/**
+ * Records the progress bots reached by now in their submission records,
+ * stamping `finished_at` at their planned finish time, copies it to
+ * `player_states` for display and logs the steps for the replay. Reads the
+ * submissions, so call it before the transaction writes anything.
+ * @param {admin.firestore.Transaction} tx The transaction that read the match
+ * @param {admin.firestore.DocumentReference<Match>} ref The match reference
+ * @param {Match} match The match
+ * @param {admin.firestore.Timestamp} now The current time
+ * @return {Promise<boolean>} Whether any bot advanced
+ */
+export async function advanceBots(
+  tx: admin.firestore.Transaction,
+  ref: admin.firestore.DocumentReference<Match>,
+  match: Match,
+  now: admin.firestore.Timestamp
+): Promise<boolean> {
+  const startAtMs = match.start_at.toMillis();
+  const botIds = match.bot_ids ?? [];
+  if (botIds.length === 0) return false;
+  const elapsedMs = now.toMillis() - startAtMs;
+
+  const snaps = await tx.getAll(
+    ...botIds.map((botId) => submissionRef(ref.id, botId))
+  );
+
+  let advanced = false;
+  botIds.forEach((botId, index) => {
+    const step = botStep(
+      readSubmission(snaps[index]),
+      startAtMs,
+      elapsedMs,
+      now
+    );
+    if (!step) return;
+
+    writeBotStep(tx, ref.id, botId, step, startAtMs, now);
+    const statePath = `player_states.${botId}`;
+    tx.update(ref, {
+      [`${statePath}.progress`]: step.submission.progress,
+      ...(step.finished && {
+        [`${statePath}.finished_at`]: step.submission.finished_at,
+        [`${statePath}.verification`]: step.submission.verification,
+      }),
+    });
+    advanced = true;
+  });
+  return advanced;
+}
+
+/**
+ * Submission records of the players of an ending match, with the bots first
+ * moved along their plans to `endMs`. Bots otherwise only advance on
+ * heartbeats and the minutely tick, so a bot finishing in between would be
+ * resolved as unfinished. Leaves the match document alone, as it may
+ * already be deleted.
+ * @param {string} matchId The match id
+ * @param {Match} match The match
+ * @param {string[]} playerIds The players to read
+ * @param {number} endMs When the match ended, at most start_at plus
+ *   max_duration
+ * @return {Promise<Map<string, Submission>>} Submissions by player id
+ */
+export async function settleSubmissions(
+  matchId: string,
+  match: Match,
+  playerIds: string[],
+  endMs: number
+): Promise<Map<string, Submission>> {
+  if (playerIds.length === 0) return new Map();
+  const startAtMs = match.start_at.toMillis();
+
+  return db.runTransaction(async (tx) => {
+    const snaps = await tx.getAll(
+      ...playerIds.map((playerId) => submissionRef(matchId, playerId))
+    );
+    const now = admin.firestore.Timestamp.now();
+    return new Map(
+      playerIds.map((playerId, index) => {
+        const submission = readSubmission(snaps[index]);
+        const step = isBotId(playerId)
+          ? botStep(submission, startAtMs, endMs - startAtMs, now)
+          : null;
+        if (!step) return [playerId, submission];
+        writeBotStep(tx, matchId, playerId, step, startAtMs, now);
+        return [playerId, step.submission];
+      })
+    );
+  });
+}
+
+/**
+ * Advances bots in running matches. Heartbeats of the human player advance
+ * the bot every few seconds; this keeps bots moving when those stop.
+ */
+export const advanceBotMatches = onSchedule("every 1 minutes", async () => {
+  const snapshot = await db
+    .collection("matches")
+    .where("has_bots", "==", true)
+    .limit(ADVANCE_LIMIT)
+    .get();
+
+  let advancedCount = 0;
+  for (const doc of snapshot.docs) {
+    try {
+      const advanced = await db.runTransaction(async (tx) => {
+        const ref = matchRef(doc.id);
+        const match = (await tx.get(ref)).data();
+        if (!match) return false;
+        return advanceBots(tx, ref, match, admin.firestore.Timestamp.now());
+      });
+      if (advanced) advancedCount++;
+    } catch (error) {
+      logger.error("bot_advance_failed", {
+        match_id: doc.id,
+        error: String(error),
+      });
+    }
+  }
+
+  logger.info("bot_advance_completed", {
+    advanced: advancedCount,
+    checked: snapshot.size,
+  });
+});
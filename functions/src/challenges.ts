@@ -0,0 +1,463 @@
+import * as admin from "firebase-admin";
+import { randomInt } from "crypto";
+import * as logger from "firebase-functions/logger";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { getGameConfig } from "./config";
+import { resolveDevices } from "./devices";
+import { buildMatchData } from "./match_making";
+import { matchRef } from "./matches";
+import { activeRestriction, moderationRef } from "./moderation";
+import {
+  anonymousPlayer,
+  localizationData,
+  renderNotification,
+} from "./notification_templates";
+import { fanOut } from "./notify_pushover";
+import { isPuzzlePlayable, selectPuzzleId } from "./puzzles";
+import { ratingRef, readRating } from "./ratings";
+
+const db = admin.firestore();
+
+const INVITE_CODE_LENGTH = 6;
+// No 0/O or 1/I so codes can be read out loud
+const INVITE_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+export type ChallengeStatus =
+  | "pending"
+  | "accepted"
+  | "declined"
+  | "cancelled"
+  | "expired";
+
+/**
+ * Generates a human friendly invite code.
+ * @return {string} The invite code
+ */
+function generateInviteCode(): string {
+  let code = "";
+  for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
+    code += INVITE_CODE_ALPHABET[randomInt(INVITE_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/**
+ * Reads an optional string field from callable data.
+ * @param {unknown} value The raw value
+ * @param {string} name Field name used in the error message
+ * @return {string | undefined} The value, undefined when missing
+ */
+function optionalString(value: unknown, name: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string" || value.length === 0) {
+    throw new HttpsError("invalid-argument", `${name} must be a string`);
+  }
+  return value;
+}
+
+/**
+ * Sends the "challenge received" push to every device of the invited user.
+ * @param {string} targetUserId The invited user
+ * @param {string} challengeId The challenge id
+ * @param {string | null} username Display name of the challenger
+ * @param {admin.firestore.Timestamp} expiresAt When the challenge expires
+ */
+async function notifyChallengeTarget(
+  targetUserId: string,
+  challengeId: string,
+  username: string | null,
+  expiresAt: admin.firestore.Timestamp
+): Promise<void> {
+  const clientsSnapshot = await db
+    .collection("clients")
+    .where("user_id", "==", targetUserId)
+    .get();
+
+  const devices = await resolveDevices(
+    clientsSnapshot.docs,
+    "challenge_received"
+  );
+  if (devices.length === 0) {
+    logger.info("challenge_push_no_devices", {
+      challenge_id: challengeId,
+      user_id: targetUserId,
+    });
+    return;
+  }
+
+  // Devices of the same user may use different app languages
+  const results = await fanOut(
+    devices,
+    (locale) => {
+      const vars = { username: username ?? anonymousPlayer(locale) };
+      const notification = renderNotification(
+        "challenge_received",
+        locale,
+        vars
+      );
+
+      return {
+        notification,
+        data: {
+          type: "challenge_received",
+          challengeId,
+          username: vars.username,
+          expiresAt: String(expiresAt.toMillis()),
+          locale,
+          ...localizationData("challenge_received", vars),
+          ...notification,
+        },
+        android: {
+          priority: "high" as const,
+          ttl: Math.max(0, expiresAt.toMillis() - Date.now()),
+        },
+        apns: {
+          headers: {
+            "apns-priority": "10",
+          },
+          payload: {
+            aps: {
+              sound: "default",
+            },
+          },
+        },
+      };
+    },
+    "challenge"
+  );
+
+  logger.info("challenge_push_sent", {
+    challenge_id: challengeId,
+    user_id: targetUserId,
+    success: results.success,
+    failure: results.failure,
+  });
+}
+
+/**
+ * Creates a private challenge. With `targetUserId` the user is challenged
+ * directly and notified; otherwise anyone holding the returned invite code
+ * can accept it. Banned and suspended users can't create challenges.
+ */
+export const createChallenge = onCall(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw new HttpsError("unauthenticated", "Sign in to create challenges");
+  }
+
+  const targetUserId = optionalString(
+    request.data?.targetUserId,
+    "targetUserId"
+  );
+  const puzzleId = optionalString(request.data?.puzzleId, "puzzleId");
+  const username = optionalString(request.data?.username, "username");
+  const avatar = optionalString(request.data?.avatar, "avatar");
+
+  if (targetUserId === uid) {
+    throw new HttpsError("invalid-argument", "Cannot challenge yourself");
+  }
+  if (puzzleId && !(await isPuzzlePlayable(puzzleId))) {
+    throw new HttpsError("invalid-argument", `Unknown puzzle ${puzzleId}`);
+  }
+
+  const now = admin.firestore.Timestamp.now();
+  // Banned and suspended users can't start matches, challenges included
+  const restriction = activeRestriction(await moderationRef(uid).get(), now);
+  if (restriction) {
+    logger.info("challenge_refused", {
+      user_id: uid,
+      reason: "restricted",
+      status: restriction.status,
+    });
+    throw new HttpsError(
+      "permission-denied",
+      `Account is ${restriction.status}`
+    );
+  }
+
+  const config = await getGameConfig(uid);
+  const expiresAt = admin.firestore.Timestamp.fromMillis(
+    now.toMillis() + config.challenge_ttl_seconds * 1000
+  );
+
+  const challengeRef = db.collection("challenges").doc();
+  const inviteCode = generateInviteCode();
+
+  await challengeRef.set({
+    challenger_id: uid,
+    challenger_username: username ?? null,
+    challenger_avatar: avatar ?? null,
+    target_user_id: targetUserId ?? null,
+    invite_code: inviteCode,
+    puzzle_id: puzzleId ?? null,
+    status: "pending" as ChallengeStatus,
+    created_at: now,
+    expires_at: expiresAt,
+  });
+
+  logger.info("challenge_created", {
+    challenge_id: challengeRef.id,
+    user_id: uid,
+    target_user_id: targetUserId ?? null,
+    invite_code: targetUserId ? null : inviteCode,
+  });
+
+  if (targetUserId) {
+    try {
+      await notifyChallengeTarget(
+        targetUserId,
+        challengeRef.id,
+        username ?? null,
+        expiresAt
+      );
+    } catch (error) {
+      logger.error("challenge_push_failed", {
+        challenge_id: challengeRef.id,
+        user_id: targetUserId,
+        error: String(error),
+      });
+    }
+  }
+
+  return {
+    challengeId: challengeRef.id,
+    inviteCode,
+    expiresAt: expiresAt.toMillis(),
+  };
+});
+
+/**
+ * Finds the challenge referenced by callable data, by id or invite code.
+ * @param {object} data The callable request data
+ * @return {Promise<admin.firestore.DocumentReference>} The challenge reference
+ */
+async function resolveChallengeRef(data: {
+  challengeId?: unknown;
+  inviteCode?: unknown;
+}): Promise<admin.firestore.DocumentReference> {
+  const challengeId = optionalString(data?.challengeId, "challengeId");
+  if (challengeId) {
+    return db.collection("challenges").doc(challengeId);
+  }
+
+  const inviteCode = optionalString(data?.inviteCode, "inviteCode");
+  if (!inviteCode) {
+    throw new HttpsError(
+      "invalid-argument",
+      "challengeId or inviteCode is required"
+    );
+  }
+
+  const snapshot = await db
+    .collection("challenges")
+    .where("invite_code", "==", inviteCode.toUpperCase())
+    .where("status", "==", "pending")
+    .limit(1)
+    .get();
+
+  if (snapshot.empty) {
+    throw new HttpsError("not-found", "No pending challenge for this code");
+  }
+  return snapshot.docs[0].ref;
+}
+
+/**
+ * Accepts a pending challenge and creates the match for both players,
+ * unless either of them is banned or suspended.
+ */
+export const acceptChallenge = onCall(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw new HttpsError("unauthenticated", "Sign in to accept challenges");
+  }
+
+  const username = optionalString(request.data?.username, "username");
+  const avatar = optionalString(request.data?.avatar, "avatar");
+  const challengeRef = await resolveChallengeRef(request.data ?? {});
+  const matchId = db.collection("matches").doc().id;
+  const config = await getGameConfig(uid);
+
+  return db.runTransaction(async (tx) => {
+    const challengeDoc = await tx.get(challengeRef);
+    const challenge = challengeDoc.data();
+    if (!challenge) {
+      throw new HttpsError("not-found", "Challenge not found");
+    }
+
+    const now = admin.firestore.Timestamp.now();
+    if (challenge.status !== "pending") {
+      throw new HttpsError(
+        "failed-precondition",
+        `Challenge is ${challenge.status}`
+      );
+    }
+    if (challenge.expires_at.toMillis() <= now.toMillis()) {
+      tx.update(challengeRef, { status: "expired" as ChallengeStatus });
+      return { accepted: false, reason: "expired" };
+    }
+    if (challenge.challenger_id === uid) {
+      throw new HttpsError("invalid-argument", "Cannot accept own challenge");
+    }
+    if (challenge.target_user_id && challenge.target_user_id !== uid) {
+      throw new HttpsError(
+        "permission-denied",
+        "Challenge is for another user"
+      );
+    }
+
+    const [challengerModeration, accepterModeration] = await tx.getAll(
+      moderationRef(challenge.challenger_id),
+      moderationRef(uid)
+    );
+    const restriction = activeRestriction(accepterModeration, now);
+    if (restriction) {
+      logger.info("challenge_refused", {
+        challenge_id: challengeRef.id,
+        user_id: uid,
+        reason: "restricted",
+        status: restriction.status,
+      });
+      throw new HttpsError(
+        "permission-denied",
+        `Account is ${restriction.status}`
+      );
+    }
+    // The challenger may have been restricted since creating it
+    if (activeRestriction(challengerModeration, now)) {
+      throw new HttpsError(
+        "failed-precondition",
+        "Challenger can't play right now"
+      );
+    }
+
+    const [challengerRating, accepterRating] = (
+      await tx.getAll(ratingRef(challenge.challenger_id), ratingRef(uid))
+    ).map(readRating);
+
+    const puzzleId: string =
+      challenge.puzzle_id ??
+      (await selectPuzzleId(
+        [challenge.challenger_id, uid],
+        [challengerRating.rating, accepterRating.rating]
+      ));
+
+    tx.set(matchRef(matchId), {
+      ...buildMatchData(
+        [
+          {
+            id: challenge.challenger_id,
+            username: challenge.challenger_username,
+            avatar: challenge.challenger_avatar,
+            rating: challengerRating.rating,
+          },
+          {
+            id: uid,
+            username: username ?? null,
+            avatar: avatar ?? null,
+            rating: accepterRating.rating,
+          },
+        ],
+        { lobbySize: 2, now, puzzleId, config }
+      ),
+      challenge_id: challengeRef.id,
+    });
+
+    tx.update(challengeRef, {
+      status: "accepted" as ChallengeStatus,
+      accepted_by: uid,
+      accepted_at: now,
+      match_id: matchId,
+    });
+
+    logger.info("challenge_accepted", {
+      challenge_id: challengeRef.id,
+      user_id: uid,
+      match_id: matchId,
+    });
+    return { accepted: true, matchId };
+  });
+});
+
+/**
+ * Declines a pending challenge. Only the challenged user declines it and the
+ * challenger may cancel it. An open invite can only be cancelled, so a
+ * bystander holding its code can't end it for everyone it was shared with.
+ */
+export const declineChallenge = onCall(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw new HttpsError("unauthenticated", "Sign in to decline challenges");
+  }
+
+  const challengeRef = await resolveChallengeRef(request.data ?? {});
+
+  return db.runTransaction(async (tx) => {
+    const challengeDoc = await tx.get(challengeRef);
+    const challenge = challengeDoc.data();
+    if (!challenge) {
+      throw new HttpsError("not-found", "Challenge not found");
+    }
+    if (challenge.status !== "pending") {
+      throw new HttpsError(
+        "failed-precondition",
+        `Challenge is ${challenge.status}`
+      );
+    }
+
+    let status: ChallengeStatus;
+    if (challenge.challenger_id === uid) {
+      status = "cancelled";
+    } else if (!challenge.target_user_id) {
+      throw new HttpsError(
+        "permission-denied",
+        "Open challenges can only be cancelled by the challenger"
+      );
+    } else if (challenge.target_user_id === uid) {
+      status = "declined";
+    } else {
+      throw new HttpsError(
+        "permission-denied",
+        "Challenge is for another user"
+      );
+    }
+
+    tx.update(challengeRef, {
+      status,
+      declined_by: uid,
+      declined_at: admin.firestore.Timestamp.now(),
+    });
+
+    logger.info("challenge_answered", {
+      challenge_id: challengeRef.id,
+      user_id: uid,
+      status,
+    });
+    return { status };
+  });
+});
+
+/**
+ * Marks pending challenges past their `expires_at` as expired. Needs the
+ * `challenges` index on `status` and `expires_at`, see
+ * firestore.indexes.json.
+ */
+export const expireChallenges = onSchedule("every 5 minutes", async () => {
+  const now = admin.firestore.Timestamp.now();
+  const snapshot = await db
+    .collection("challenges")
+    .where("status", "==", "pending")
+    .where("expires_at", "<=", now)
+    .limit(400)
+    .get();
+
+  if (snapshot.empty) return;
+
+  const batch = db.batch();
+  snapshot.docs.forEach((doc) =>
+    batch.update(doc.ref, { status: "expired" as ChallengeStatus })
+  );
+  await batch.commit();
+
+  logger.info("challenges_expired", { expired: snapshot.size });
+});
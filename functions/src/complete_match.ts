@@ -1,248 +1,487 @@
 import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
 import { onDocumentDeleted } from "firebase-functions/v2/firestore";
+import { recordAbandonment, requeueDodgedPlayers } from "./abandonment";
+import { isBotId, settleSubmissions } from "./bots";
+import { getGameConfig } from "./config";
+import { quarantine } from "./dead_letters";
+import { historyRef } from "./match_history";
+import {
+  completedAtMs,
+  matchDurationMs,
+  PlayerResult,
+  quitBeforeStart,
+  resolvePlacements,
+  resultOf,
+  scoreAgainst,
+  winnerOf,
+} from "./match_resolution";
+import { recordEvent } from "./metrics";
+import {
+  applyBotOutcome,
+  applyOutcome,
+  ensureLeaderboards,
+  readStats,
+  statsRef,
+  updateLeaderboards,
+} from "./player_stats";
+import { Forfeit, ForfeitReason, forfeitOf } from "./presence";
+import { compactReplay } from "./replays";
+import { seasonAt, updateSeasonStanding } from "./seasons";
+import {
+  Match,
+  MatchHistoryEntry,
+  PlayerState,
+  SCHEMA_VERSION,
+  SchemaError,
+  historyConverter,
+  invalidPlayerStates,
+  parseMatch,
+  tryParse,
+} from "./schema";
+import { Submission } from "./submissions";
+import {
+  PlayerRating,
+  computeRatingChange,
+  ratingRef,
+  readRating,
+} from "./ratings";
 
 const db = admin.firestore();
 
-export const onMatchDeleted = onDocumentDeleted(
-  "matches/{matchId}",
-  async (event) => {
-    const matchId = event.params.matchId;
-    const matchData = event.data?.data();
+/**
+ * Reasons why a player's result in a match should be reviewed.
+ * @param {string} playerId The player id
+ * @param {PlayerState} playerState The player's entry in `player_states`
+ * @param {Submission} submission What the server accepted from the player
+ * @return {string[]} Suspicion reasons, empty when nothing stands out
+ */
+function suspicionReasons(
+  playerId: string,
+  playerState: PlayerState | undefined,
+  submission: Submission
+): string[] {
+  const reasons: string[] = [];
+  // Finishes only count when submitMove accepted them
+  if (playerState?.finished_at && !submission.finished_at) {
+    reasons.push(`${playerId}:client_finished_at`);
+  }
+  if (submission.rejected_submissions > 0) {
+    reasons.push(`${playerId}:rejected_submissions`);
+  }
+  return reasons;
+}
 
-    if (!matchData) {
-      console.log(`No data found for deleted match ${matchId}`);
-      return;
-    }
+export type FinalizedBy = "client_delete" | "expiry_sweeper";
 
-    console.log(`Processing deleted match: ${matchId}`);
+export interface FinalizeOptions {
+  finalizedBy: FinalizedBy;
+  // Used as completed_at when no player finished, defaults to now
+  fallbackCompletedAt?: admin.firestore.Timestamp;
+}
 
-    try {
-      // Extract match data from the deleted document
-      // eslint-disable-next-line camelcase
-      const { players, player_states, created_at, start_at, puzzle_id } =
-        matchData;
-      let { winner } = matchData;
-
-      // Check if match history entries should be created
-      if (!players || !Array.isArray(players) || players.length === 0) {
-        console.log(`No players found in deleted match ${matchId}`);
-        return;
-      }
+/**
+ * Resolves the winner of a match from the players' `match_submissions`
+ * records and writes its history and rating updates. Results written to the
+ * match document by clients are ignored.
+ * A `match_results/{matchId}` record is created in the same transaction, so
+ * finalizing the same match twice is a no-op.
+ * @param {string} matchId The match id
+ * @param {admin.firestore.DocumentData} matchData The match document data;
+ *   a malformed match is quarantined instead of finalized, while a player
+ *   with a malformed `player_states` entry forfeits as of start_at
+ * @param {FinalizeOptions} options Who is finalizing and fallback timing
+ * @return {Promise<boolean>} Whether this call finalized the match
+ */
+export async function finalizeMatch(
+  matchId: string,
+  matchData: admin.firestore.DocumentData,
+  options: FinalizeOptions
+): Promise<boolean> {
+  let match: Match;
+  try {
+    match = parseMatch(matchData);
+  } catch (error) {
+    if (!(error instanceof SchemaError)) throw error;
+    await quarantine(
+      db.collection("matches").doc(matchId),
+      matchData,
+      error,
+      options.finalizedBy
+    );
+    return false;
+  }
+  const {
+    players,
+    player_states: playerStates,
+    created_at: createdAt,
+    puzzle_id: puzzleId,
+  } = match;
 
-      // Check if any player quit before match started - if so, clean up and exit without creating history
-      for (const playerId of players) {
-        // eslint-disable-next-line camelcase
-        const playerState = player_states[playerId];
-        if (
-          playerState?.quit_at &&
-          start_at &&
-          playerState.quit_at.toMillis() < start_at.toMillis()
-        ) {
-          console.log(
-            `Player ${playerId} quit before match started, cleaning up without creating match history`
-          );
-          return;
-        }
-      }
+  // Players who quit before the match started get no history. If that leaves
+  // fewer than two players, clean up and exit without creating history.
+  const startAtMs = match.start_at.toMillis();
+  const dodgerIds = players.filter((playerId) =>
+    quitBeforeStart(playerStates[playerId]?.quit_at?.toMillis(), startAtMs)
+  );
+  const activePlayers = players.filter(
+    (playerId) => !dodgerIds.includes(playerId)
+  );
 
-      // Determine winner if not already decided
-      if (!winner) {
-        console.log(`Determining winner for deleted match ${matchId}`);
-
-        // Determine winner based on finishedAt timestamp, then progress
-        let winnerPlayerId = null;
-        const playerResults = [];
-
-        // Collect player data for comparison
-        for (const playerId of players) {
-          // eslint-disable-next-line camelcase
-          const playerState = player_states[playerId];
-
-          // Validate player state exists
-          if (!playerState) {
-            console.warn(
-              `Player state missing for player ${playerId}, using defaults`
-            );
-          }
-
-          playerResults.push({
-            playerId,
-            finishedAt: playerState?.finished_at || null,
-            progress: playerState?.progress || 0,
-            quitAt: playerState?.quit_at || null,
-          });
-        }
-
-        // Check for quit players first - quit player loses by default
-        const quitPlayerIds = playerResults
-          .filter((p) => p.quitAt !== null)
-          .map((p) => p.playerId);
-
-        if (quitPlayerIds.length > 0) {
-          if (quitPlayerIds.length === 1) {
-            // One player quit, the other wins
-            winnerPlayerId =
-              playerResults.find((p) => !quitPlayerIds.includes(p.playerId))
-                ?.playerId || null;
-            console.log(
-              `Player ${quitPlayerIds[0]} quit, ${winnerPlayerId} wins by default`
-            );
-          } else {
-            // Both players quit - it's a draw
-            winnerPlayerId = null;
-            console.log(`Both players quit, match is a draw`);
-          }
-        } else {
-          // No one quit, use normal logic
-
-          // Sort by completion: finished players first (by finishedAt), then by progress
-          playerResults.sort((a, b) => {
-            // If both players finished, compare finishedAt timestamps
-            if (a.finishedAt && b.finishedAt) {
-              return a.finishedAt.toMillis() - b.finishedAt.toMillis();
-            }
-            // If only one player finished, they win
-            if (a.finishedAt && !b.finishedAt) return -1;
-            if (!a.finishedAt && b.finishedAt) return 1;
-
-            // If neither finished, compare progress
-            return b.progress - a.progress;
-          });
-
-          // Determine winner or draw
-          const firstPlayer = playerResults[0];
-          const secondPlayer = playerResults[1];
-
-          if (firstPlayer.finishedAt && !secondPlayer.finishedAt) {
-            // First player finished, second didn't
-            winnerPlayerId = firstPlayer.playerId;
-          } else if (!firstPlayer.finishedAt && !secondPlayer.finishedAt) {
-            // Neither finished, compare progress
-            if (firstPlayer.progress > secondPlayer.progress) {
-              winnerPlayerId = firstPlayer.playerId;
-            } else if (firstPlayer.progress === secondPlayer.progress) {
-              // It's a draw - no winner
-              winnerPlayerId = null;
-            } else {
-              winnerPlayerId = secondPlayer.playerId;
-            }
-          } else if (firstPlayer.finishedAt && secondPlayer.finishedAt) {
-            // Both finished, winner is who finished first
-            winnerPlayerId = firstPlayer.playerId;
-          }
-        }
-
-        winner = winnerPlayerId;
-        const isDraw = winner === null;
-
-        console.log(
-          `Winner determined: ${winner || "draw"}${
-            isDraw
-              ? " (draw)"
-              : ` (finished at: ${
-                  playerResults.find((p) => p.playerId === winner)?.finishedAt
-                    ? playerResults
-                        .find((p) => p.playerId === winner)
-                        ?.finishedAt?.toDate()
-                    : "not finished"
-                }, progress: ${
-                  playerResults.find((p) => p.playerId === winner)?.progress
-                })`
-          }`
-        );
+  if (dodgerIds.length > 0) {
+    logger.info("match_dodged", { match_id: matchId, dodgers: dodgerIds });
+    for (const dodgerId of dodgerIds) {
+      try {
+        await recordAbandonment(dodgerId, matchId);
+      } catch (error) {
+        logger.error("abandonment_failed", {
+          match_id: matchId,
+          user_id: dodgerId,
+          error: String(error),
+        });
       }
+    }
 
-      // Create match history entries for each player
-      // Determine completedAt: take the earliest finished_at of any player; if none, use now
-      let completedAt: admin.firestore.Timestamp;
+    if (activePlayers.length < 2) {
+      logger.info("match_finalize_skipped", {
+        match_id: matchId,
+        reason: "too_few_players",
+      });
       try {
-        let earliestFinished: admin.firestore.Timestamp | null = null;
-        for (const playerId of players) {
-          // eslint-disable-next-line camelcase
-          const ts = player_states?.[playerId]?.finished_at || null;
-          if (ts) {
-            if (
-              !earliestFinished ||
-              ts.toMillis() < earliestFinished.toMillis()
-            ) {
-              earliestFinished = ts;
-            }
-          }
-        }
-        completedAt = earliestFinished ?? admin.firestore.Timestamp.now();
-      } catch (e) {
-        console.warn(
-          "Failed to derive completedAt from finished_at; using now()",
-          e
+        await requeueDodgedPlayers(
+          matchId,
+          match,
+          activePlayers.filter((playerId) => !isBotId(playerId))
         );
-        completedAt = admin.firestore.Timestamp.now();
+      } catch (error) {
+        logger.error("requeue_failed", {
+          match_id: matchId,
+          error: String(error),
+        });
       }
+      return false;
+    }
+  }
 
-      const batch = db.batch();
-
-      for (const playerId of players) {
-        // eslint-disable-next-line camelcase
-        const playerState = player_states[playerId];
-        const isDraw = winner === null;
-        const isWinner = !isDraw && playerId === winner;
-        const opponentId = players.find((p: string) => p !== playerId);
-
-        // Validate opponent was found
-        if (!opponentId) {
-          console.error(`No opponent found for player ${playerId}`);
-          continue; // Skip this player's history entry
-        }
-
-        // eslint-disable-next-line camelcase
-        const opponentState = player_states[opponentId];
-
-        // Calculate match duration safely
-        let matchDuration = 0;
-        try {
-          // eslint-disable-next-line camelcase
-          matchDuration = completedAt.toMillis() - start_at.toMillis();
-          // Ensure duration is not negative
-          if (matchDuration < 0) {
-            console.warn(
-              `Negative match duration calculated: ${matchDuration}ms, setting to 0`
-            );
-            matchDuration = 0;
-          }
-        } catch (error) {
-          console.error(`Error calculating match duration:`, error);
-          matchDuration = 0;
-        }
-
-        const historyEntry = {
-          match_id: matchId,
-          player_id: playerId,
-          opponent_id: opponentId,
-          opponent_username: opponentState?.username,
-          opponent_avatar: opponentState?.avatar,
-          // eslint-disable-next-line camelcase
-          puzzle_id,
-          result: isDraw ? "draw" : isWinner ? "win" : "loss",
-          player_progress: playerState?.progress || 0,
-          opponent_progress: opponentState?.progress || 0,
-          player_finished_at: playerState?.finished_at || null,
-          opponent_finished_at: opponentState?.finished_at || null,
-          match_duration: matchDuration,
-          completed_at: completedAt,
-          // eslint-disable-next-line camelcase
-          created_at: created_at || completedAt, // Fallback to completedAt if created_at is missing
+  // Disconnects are judged as of the match end at the latest, so a match
+  // finalized late doesn't turn a short blip into a forfeit
+  const config = await getGameConfig();
+  const forfeitCheckMs = Math.min(
+    Date.now(),
+    startAtMs + (match.max_duration ?? 0) * 1000
+  );
+  const forfeits = new Map<string, ForfeitReason>();
+  const invalidStates = invalidPlayerStates(matchData);
+  for (const [playerId, error] of invalidStates) {
+    logger.warn("player_state_invalid", {
+      match_id: matchId,
+      user_id: playerId,
+      field: error.field,
+      error: error.message,
+    });
+  }
+  // Bots are brought up to the match end first, in case one finished after
+  // its last advance
+  const submissions = await settleSubmissions(
+    matchId,
+    match,
+    activePlayers,
+    forfeitCheckMs
+  );
+  const submissionOf = (playerId: string): Submission =>
+    submissions.get(playerId) as Submission;
+
+  // Collect player data for comparison
+  const playerResults: PlayerResult[] = activePlayers.map((playerId) => {
+    const playerState = playerStates[playerId];
+    const submission = submissionOf(playerId);
+
+    // Validate player state exists
+    if (!playerState && !invalidStates.has(playerId)) {
+      logger.warn("player_state_missing", {
+        match_id: matchId,
+        user_id: playerId,
+      });
+    }
+
+    const forfeit: Forfeit | null = invalidStates.has(playerId)
+      ? { reason: "invalid_state", at: match.start_at }
+      : forfeitOf(
+          { ...playerState, finished_at: submission.finished_at },
+          forfeitCheckMs,
+          startAtMs,
+          config
+        );
+    if (forfeit) {
+      forfeits.set(playerId, forfeit.reason);
+    }
+
+    return {
+      playerId,
+      finishedAtMs: submission.finished_at?.toMillis() ?? null,
+      progress: submission.progress,
+      quitAtMs: forfeit?.at.toMillis() ?? null,
+    };
+  });
+
+  // Rank by finish time, then progress, with quitters last
+  const placements = resolvePlacements(playerResults);
+  const winner = winnerOf(placements);
+
+  logger.info("match_placements", {
+    match_id: matchId,
+    placements: Object.fromEntries(placements),
+    winner,
+  });
+
+  // Completed at the earliest trusted finish; if nobody finished, at the
+  // caller's fallback or now
+  const completedAt = admin.firestore.Timestamp.fromMillis(
+    completedAtMs(
+      playerResults,
+      (
+        options.fallbackCompletedAt ?? admin.firestore.Timestamp.now()
+      ).toMillis()
+    )
+  );
+  const matchDuration = matchDurationMs(completedAt.toMillis(), startAtMs);
+
+  const suspiciousReasons = activePlayers.flatMap((playerId) =>
+    suspicionReasons(playerId, playerStates[playerId], submissionOf(playerId))
+  );
+  if (suspiciousReasons.length > 0) {
+    logger.warn("match_suspicious", {
+      match_id: matchId,
+      reasons: suspiciousReasons,
+    });
+  }
+
+  // Write history entries and rating updates atomically. The result record
+  // makes finalization idempotent across retries, the expiry sweeper and the
+  // client delete that may follow it.
+  const season = await seasonAt(completedAt);
+  const resultRef = db.collection("match_results").doc(matchId);
+  // Bot matches leave ratings and leaderboards alone
+  const botMatch = activePlayers.some(isBotId);
+  const finalized = await db.runTransaction(async (tx) => {
+    const resultDoc = await tx.get(resultRef);
+    if (resultDoc.exists) {
+      logger.info("match_finalize_skipped", {
+        match_id: matchId,
+        reason: "already_finalized",
+        finalized_by: resultDoc.data()?.finalized_by,
+      });
+      return false;
+    }
+
+    const ratingSnaps = await tx.getAll(
+      ...activePlayers.map((playerId) => ratingRef(playerId))
+    );
+    const ratings = new Map(
+      activePlayers.map((playerId, index) => [
+        playerId,
+        readRating(ratingSnaps[index]),
+      ])
+    );
+    const statsSnaps = await tx.getAll(
+      ...activePlayers.map((playerId) => statsRef(playerId))
+    );
+
+    activePlayers.forEach((playerId, playerIndex) => {
+      if (isBotId(playerId)) return;
+
+      const playerState = playerStates[playerId];
+      const submission = submissionOf(playerId);
+      const placement = placements.get(playerId) as number;
+      const opponentIds = activePlayers.filter((p) => p !== playerId);
+
+      const opponents = opponentIds.map((opponentId) => {
+        const opponentState = playerStates[opponentId];
+        const opponentSubmission = submissionOf(opponentId);
+        return {
+          player_id: opponentId,
+          username: opponentState?.username ?? null,
+          avatar: opponentState?.avatar ?? null,
+          progress: opponentSubmission.progress,
+          finished_at: opponentSubmission.finished_at,
+          placement: placements.get(opponentId) as number,
+          is_bot: isBotId(opponentId),
         };
+      });
+
+      const playerRating = ratings.get(playerId) as PlayerRating;
+      const ratingChange = botMatch
+        ? 0
+        : computeRatingChange(
+            playerRating,
+            opponents.map((opponent) => ({
+              rating: (ratings.get(opponent.player_id) as PlayerRating).rating,
+              score: scoreAgainst(placement, opponent.placement),
+            }))
+          );
+
+      const result = resultOf(placement, placements);
+
+      // Single-opponent fields are kept for head-to-head matches
+      const opponent = opponents.length === 1 ? opponents[0] : null;
+
+      const historyEntry: MatchHistoryEntry = {
+        match_id: matchId,
+        player_id: playerId,
+        opponent_id: opponent?.player_id ?? null,
+        opponent_username: opponent?.username ?? null,
+        opponent_avatar: opponent?.avatar ?? null,
+        opponent_ids: opponentIds,
+        opponents,
+        player_count: activePlayers.length,
+        placement,
+        puzzle_id: puzzleId,
+        result,
+        player_progress: submission.progress,
+        opponent_progress: opponent?.progress ?? null,
+        player_finished_at: submission.finished_at,
+        opponent_finished_at: opponent?.finished_at ?? null,
+        match_duration: matchDuration,
+        completed_at: completedAt,
+        created_at: createdAt || completedAt, // Fallback to completedAt if created_at is missing
+        rating_before: playerRating.rating,
+        rating_after: playerRating.rating + ratingChange,
+        rating_change: ratingChange,
+        forfeit_reason: forfeits.get(playerId) ?? null,
+        // Written by compactReplay once the match document is deleted
+        replay_id: matchId,
+        bot_match: botMatch,
+        season_id: season?.id ?? null,
+        suspicious: suspiciousReasons.length > 0,
+        suspicious_reasons: suspiciousReasons,
+        schema_version: SCHEMA_VERSION,
+      };
 
-        // Add to match_history collection
-        const historyRef = db.collection("match_history").doc();
-        batch.set(historyRef, historyEntry);
+      // Add to match_history collection under a deterministic ID
+      tx.set(
+        historyRef(matchId, playerId).withConverter(historyConverter),
+        historyEntry
+      );
+
+      const stats = readStats(statsSnaps[playerIndex]);
+      if (botMatch) {
+        tx.set(statsRef(playerId), {
+          ...applyBotOutcome(stats, result),
+          updated_at: completedAt,
+        });
+        return;
       }
 
-      // Commit all history entries
-      await batch.commit();
+      tx.set(ratingRef(playerId), {
+        rating: playerRating.rating + ratingChange,
+        games_played: playerRating.games_played + 1,
+        updated_at: completedAt,
+      });
+
+      const finishedAt = submission.finished_at;
+      tx.set(statsRef(playerId), {
+        ...applyOutcome(stats, {
+          result,
+          puzzleId,
+          matchDuration,
+          finishMs: finishedAt
+            ? Math.max(0, finishedAt.toMillis() - startAtMs)
+            : null,
+        }),
+        updated_at: completedAt,
+      });
+
+      updateLeaderboards(tx, playerId, result, playerState ?? {}, completedAt);
+      if (season) {
+        updateSeasonStanding(
+          tx,
+          season.id,
+          playerId,
+          result,
+          playerRating.rating + ratingChange,
+          playerState ?? {},
+          completedAt
+        );
+      }
+    });
+
+    tx.set(resultRef, {
+      match_id: matchId,
+      players: activePlayers,
+      winner,
+      placements: Object.fromEntries(placements),
+      forfeits: Object.fromEntries(forfeits),
+      bot_match: botMatch,
+      season_id: season?.id ?? null,
+      completed_at: completedAt,
+      finalized_by: options.finalizedBy,
+      finalized_at: admin.firestore.Timestamp.now(),
+    });
+    return true;
+  });
+
+  if (finalized && !botMatch) {
+    try {
+      await ensureLeaderboards(completedAt);
+    } catch (error) {
+      logger.error("leaderboard_create_failed", {
+        match_id: matchId,
+        error: String(error),
+      });
+    }
+  }
+  if (finalized) {
+    await recordEvent("match_completed", {
+      durationMs: matchDuration,
+      sums: {
+        players: activePlayers.length,
+        forfeits: forfeits.size,
+        draws: winner ? 0 : 1,
+        bot_matches: botMatch ? 1 : 0,
+      },
+      context: {
+        match_id: matchId,
+        winner,
+        finalized_by: options.finalizedBy,
+        season_id: season?.id ?? null,
+      },
+    });
+  }
+  return finalized;
+}
+
+export const onMatchDeleted = onDocumentDeleted(
+  "matches/{matchId}",
+  async (event) => {
+    const matchId = event.params.matchId;
+    const matchData = event.data?.data();
 
-      console.log(`Match history entries created for deleted match ${matchId}`);
+    if (!matchData) {
+      logger.warn("match_deleted_without_data", { match_id: matchId });
+      return;
+    }
+
+    try {
+      await finalizeMatch(matchId, matchData, {
+        finalizedBy: "client_delete",
+      });
+    } catch (error) {
+      logger.error("match_finalize_failed", {
+        match_id: matchId,
+        error: String(error),
+      });
+    }
+
+    // A malformed match was quarantined above and gets no replay
+    const match = tryParse(parseMatch, matchData);
+    if (!match) return;
+    try {
+      await compactReplay(matchId, match);
     } catch (error) {
-      console.error(`Failed to process deleted match ${matchId}:`, error);
+      logger.error("replay_compaction_failed", {
+        match_id: matchId,
+        error: String(error),
+      });
     }
   }
 );
@@ -0,0 +1,259 @@
+import * as admin from "firebase-admin";
+import { createHash } from "crypto";
+import * as logger from "firebase-functions/logger";
+
+const db = admin.firestore();
+
+const CONFIG_CACHE_TTL_MS = 60 * 1000;
+
+export interface GameConfig {
+  // Queue entries older than this are ignored by matchmaking
+  queue_ttl_seconds: number;
+  // Wait before a partially filled lobby starts with fewer players
+  lobby_fill_timeout_seconds: number;
+  // Delay between match creation and start_at
+  match_start_delay_ms: number;
+  // max_duration written into new matches
+  match_max_duration_seconds: number;
+  // Time after max_duration before the sweeper finalizes a match
+  match_expiry_grace_seconds: number;
+  // Minimum time between two queue-join notifications of the same user
+  queue_join_rate_limit_ms: number;
+  // Android TTL of queue-join notifications
+  queue_join_notification_ttl_ms: number;
+  // Wait before alerting so an instant match can skip the alert
+  queue_join_notification_delay_ms: number;
+  // Max rating difference between the joiner and alerted users
+  queue_join_rating_band: number;
+  // Only users seen within this many days are alerted
+  queue_join_active_days: number;
+  // Max UTC offset difference between the joiner and alerted users
+  queue_join_max_timezone_distance_hours: number;
+  // Queue-join alerts a user receives per day at most
+  queue_join_daily_budget: number;
+  queue_join_max_recipients: number;
+  // Default local quiet hours, may wrap midnight
+  quiet_hours_start: number;
+  quiet_hours_end: number;
+  // Tokens per FCM multicast request (FCM allows at most 500)
+  notification_batch_size: number;
+  challenge_ttl_seconds: number;
+  // Missing heartbeats for this long mark a player disconnected
+  heartbeat_timeout_seconds: number;
+  // Disconnected time after which a player forfeits the match
+  disconnect_grace_seconds: number;
+  // Half-life of a user's abandonment score
+  abandon_decay_hours: number;
+  // Abandonment score from which queue cooldowns start
+  abandon_cooldown_threshold: number;
+  // First cooldown, doubled for every further point of score
+  abandon_cooldown_base_seconds: number;
+  abandon_cooldown_max_seconds: number;
+  // Wait in the queue before matching against a bot, 0 disables bots
+  bot_match_wait_seconds: number;
+}
+
+export const DEFAULT_GAME_CONFIG: GameConfig = {
+  queue_ttl_seconds: 45,
+  lobby_fill_timeout_seconds: 20,
+  match_start_delay_ms: 5000,
+  match_max_duration_seconds: 85,
+  match_expiry_grace_seconds: 30,
+  queue_join_rate_limit_ms: 5000,
+  queue_join_notification_ttl_ms: 45 * 1000,
+  queue_join_notification_delay_ms: 1500,
+  queue_join_rating_band: 400,
+  queue_join_active_days: 7,
+  queue_join_max_timezone_distance_hours: 6,
+  queue_join_daily_budget: 5,
+  queue_join_max_recipients: 500,
+  quiet_hours_start: 22,
+  quiet_hours_end: 8,
+  notification_batch_size: 400,
+  challenge_ttl_seconds: 10 * 60,
+  heartbeat_timeout_seconds: 15,
+  disconnect_grace_seconds: 30,
+  abandon_decay_hours: 24,
+  abandon_cooldown_threshold: 2,
+  abandon_cooldown_base_seconds: 60,
+  abandon_cooldown_max_seconds: 60 * 60,
+  bot_match_wait_seconds: 25,
+};
+
+// Accepted [min, max] of every value; anything outside falls back to default
+const CONFIG_BOUNDS: Record<keyof GameConfig, [number, number]> = {
+  queue_ttl_seconds: [10, 600],
+  lobby_fill_timeout_seconds: [0, 600],
+  match_start_delay_ms: [0, 30000],
+  match_max_duration_seconds: [10, 3600],
+  match_expiry_grace_seconds: [0, 600],
+  queue_join_rate_limit_ms: [0, 10 * 60 * 1000],
+  queue_join_notification_ttl_ms: [0, 24 * 60 * 60 * 1000],
+  queue_join_notification_delay_ms: [0, 10000],
+  queue_join_rating_band: [0, 5000],
+  queue_join_active_days: [1, 365],
+  queue_join_max_timezone_distance_hours: [0, 24],
+  queue_join_daily_budget: [0, 100],
+  queue_join_max_recipients: [1, 5000],
+  quiet_hours_start: [0, 23],
+  quiet_hours_end: [0, 23],
+  notification_batch_size: [1, 500],
+  challenge_ttl_seconds: [60, 7 * 24 * 60 * 60],
+  heartbeat_timeout_seconds: [3, 300],
+  disconnect_grace_seconds: [0, 600],
+  abandon_decay_hours: [1, 24 * 30],
+  abandon_cooldown_threshold: [1, 100],
+  abandon_cooldown_base_seconds: [0, 24 * 60 * 60],
+  abandon_cooldown_max_seconds: [0, 7 * 24 * 60 * 60],
+  bot_match_wait_seconds: [0, 600],
+};
+
+interface ExperimentVariant {
+  weight: number;
+  values: Partial<GameConfig>;
+}
+
+interface Experiment {
+  id: string;
+  variants: ExperimentVariant[];
+}
+
+interface LoadedConfig {
+  base: GameConfig;
+  experiments: Experiment[];
+}
+
+let configCache: { config: LoadedConfig; loadedAt: number } | null = null;
+
+/**
+ * Validates raw values, keeping only known keys with numbers within bounds.
+ * @param {unknown} raw The raw values
+ * @param {string} source Where the values came from, used in logs
+ * @return {Partial<GameConfig>} The valid values
+ */
+function validateValues(raw: unknown, source: string): Partial<GameConfig> {
+  const values: Partial<GameConfig> = {};
+  if (!raw || typeof raw !== "object") return values;
+
+  for (const [key, value] of Object.entries(raw)) {
+    const bounds = CONFIG_BOUNDS[key as keyof GameConfig];
+    if (!bounds) continue;
+
+    const [min, max] = bounds;
+    if (
+      typeof value !== "number" ||
+      !Number.isFinite(value) ||
+      value < min ||
+      value > max
+    ) {
+      logger.warn("config_value_invalid", { source, key, value, min, max });
+      continue;
+    }
+    values[key as keyof GameConfig] = value;
+  }
+  return values;
+}
+
+/**
+ * Parses the A/B experiments of the config document. Variants without a
+ * positive weight are dropped.
+ * @param {unknown} raw The raw `experiments` field
+ * @return {Experiment[]} The valid experiments
+ */
+function parseExperiments(raw: unknown): Experiment[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((experiment) => {
+    if (
+      typeof experiment?.id !== "string" ||
+      !Array.isArray(experiment.variants)
+    ) {
+      logger.warn("config_experiment_invalid");
+      return [];
+    }
+    const variants: ExperimentVariant[] = experiment.variants
+      .filter(
+        (variant: { weight?: unknown }) =>
+          typeof variant?.weight === "number" && variant.weight > 0
+      )
+      .map((variant: { weight: number; values?: unknown }, index: number) => ({
+        weight: variant.weight,
+        values: validateValues(
+          variant.values,
+          `experiments.${experiment.id}[${index}]`
+        ),
+      }));
+    return variants.length > 0 ? [{ id: experiment.id, variants }] : [];
+  });
+}
+
+/**
+ * Loads the config document, cached per instance for a minute.
+ * Document path: config/game
+ * @return {Promise<LoadedConfig>} The base config and experiments
+ */
+async function loadConfig(): Promise<LoadedConfig> {
+  if (configCache && Date.now() - configCache.loadedAt < CONFIG_CACHE_TTL_MS) {
+    return configCache.config;
+  }
+
+  let config: LoadedConfig = { base: DEFAULT_GAME_CONFIG, experiments: [] };
+  try {
+    const doc = await db.collection("config").doc("game").get();
+    const data = doc.data() ?? {};
+    config = {
+      base: { ...DEFAULT_GAME_CONFIG, ...validateValues(data, "config") },
+      experiments: parseExperiments(data.experiments),
+    };
+  } catch (error) {
+    // Keep serving the last good config rather than defaults
+    if (configCache) {
+      logger.error("config_reload_failed", { error: String(error) });
+      return configCache.config;
+    }
+    logger.error("config_load_failed", { error: String(error) });
+  }
+
+  configCache = { config, loadedAt: Date.now() };
+  return config;
+}
+
+/**
+ * Stable bucket in [0, 100) of a user within an experiment.
+ * @param {string} userId The user id
+ * @param {string} experimentId The experiment id
+ * @return {number} The bucket
+ */
+export function experimentBucket(userId: string, experimentId: string): number {
+  const hash = createHash("sha256")
+    .update(`${experimentId}:${userId}`)
+    .digest();
+  return hash.readUInt32BE(0) % 100;
+}
+
+/**
+ * Game tuning values. When a user is given, values of the experiment
+ * variants the user is bucketed into override the base values.
+ * @param {string} userId Optional user to resolve experiment variants for
+ * @return {Promise<GameConfig>} The resolved config
+ */
+export async function getGameConfig(userId?: string): Promise<GameConfig> {
+  const { base, experiments } = await loadConfig();
+  if (!userId || experiments.length === 0) {
+    return base;
+  }
+
+  let resolved = base;
+  for (const experiment of experiments) {
+    const totalWeight = experiment.variants.reduce(
+      (sum, v) => sum + v.weight,
+      0
+    );
+    let point = (experimentBucket(userId, experiment.id) / 100) * totalWeight;
+    const variant =
+      experiment.variants.find((v) => (point -= v.weight) < 0) ??
+      experiment.variants[experiment.variants.length - 1];
+    resolved = { ...resolved, ...variant.values };
+  }
+  return resolved;
+}
@@ -0,0 +1,51 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { SCHEMA_VERSION, SchemaError } from "./schema";
+
+const db = admin.firestore();
+
+/**
+ * Records a document that failed validation, or kept failing to process,
+ * with a copy of its data and the reason, so it can be fixed and replayed.
+ * Quarantining the same document again updates its record instead of adding
+ * another.
+ * Document path: dead_letters/{collection}_{docId}
+ * @param {admin.firestore.DocumentReference} ref The invalid document
+ * @param {admin.firestore.DocumentData | undefined} data Its data
+ * @param {Error} error Why it was rejected; only a SchemaError has a field
+ * @param {string} source The trigger or job that rejected it
+ */
+export async function quarantine(
+  ref: admin.firestore.DocumentReference,
+  data: admin.firestore.DocumentData | undefined,
+  error: Error,
+  source: string
+): Promise<void> {
+  const field = error instanceof SchemaError ? error.field : null;
+  logger.error("document_quarantined", {
+    path: ref.path,
+    field,
+    reason: error.message,
+    source,
+  });
+
+  const now = admin.firestore.Timestamp.now();
+  await db
+    .collection("dead_letters")
+    .doc(ref.path.replace(/\//g, "_"))
+    .set(
+      {
+        path: ref.path,
+        collection: ref.parent.id,
+        doc_id: ref.id,
+        data: data ?? null,
+        field,
+        reason: error.message,
+        source,
+        schema_version: SCHEMA_VERSION,
+        occurrences: admin.firestore.FieldValue.increment(1),
+        last_seen_at: now,
+      },
+      { merge: true }
+    );
+}
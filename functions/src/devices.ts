@@ -0,0 +1,410 @@
+import * as admin from "firebase-admin";
+import { isDeepStrictEqual } from "util";
+import * as logger from "firebase-functions/logger";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import { quarantine } from "./dead_letters";
+import { NotificationType } from "./notification_templates";
+import {
+  Client,
+  clientConverter,
+  parseClient,
+  SCHEMA_VERSION,
+  SchemaError,
+  tryParse,
+} from "./schema";
+
+const db = admin.firestore();
+
+const PLATFORMS = ["ios", "android", "web"] as const;
+const DELIVERIES = ["all", "foreground", "off"] as const;
+// Client fields kept up by the server; changing only these is no activity
+const SERVER_CLIENT_FIELDS = [
+  "last_seen_at",
+  "fcm_token_validated_at",
+  "fcm_token_invalid",
+  "fcm_token_invalid_reason",
+  "fcm_token_invalidated_at",
+];
+
+export type Platform = (typeof PLATFORMS)[number] | "unknown";
+// all: visible notification, foreground: data-only message, off: nothing
+export type Delivery = (typeof DELIVERIES)[number];
+
+export interface Device {
+  clientId: string;
+  userId: string;
+  token: string;
+  platform: Platform;
+  locale: unknown;
+  delivery: Delivery;
+}
+
+interface DeviceRequest {
+  deviceId?: unknown;
+  token?: unknown;
+  platform?: unknown;
+  appVersion?: unknown;
+  locale?: unknown;
+  utcOffsetMinutes?: unknown;
+  preferences?: unknown;
+}
+
+/**
+ * Delivery a client wants for a notification type. Everything defaults to
+ * "all"; legacy queue-join booleans are migrated into the preferences.
+ * @param {Client} client The client
+ * @param {NotificationType} type The notification type
+ * @return {Delivery} The delivery mode
+ */
+export function deliveryFor(client: Client, type: NotificationType): Delivery {
+  return client.notification_preferences[type] ?? "all";
+}
+
+/**
+ * Devices to notify from `clients` documents. Tokens registered more than
+ * once are sent to once, using the most recently seen registration, and
+ * devices that turned the type off are dropped. Malformed registrations are
+ * quarantined.
+ * @param {admin.firestore.DocumentSnapshot[]} docs The client documents
+ * @param {NotificationType} type The notification type
+ * @return {Promise<Device[]>} The devices to notify
+ */
+export async function resolveDevices(
+  docs: admin.firestore.DocumentSnapshot[],
+  type: NotificationType
+): Promise<Device[]> {
+  const newest = new Map<
+    string,
+    { id: string; client: Client; token: string; seenMs: number }
+  >();
+
+  for (const doc of docs) {
+    let client: Client;
+    try {
+      client = parseClient(doc.data());
+    } catch (error) {
+      if (!(error instanceof SchemaError)) throw error;
+      await quarantine(doc.ref, doc.data(), error, "resolveDevices");
+      continue;
+    }
+    const token = client.fcm_token;
+    if (!token) continue;
+
+    const seenMs =
+      client.last_seen_at?.toMillis() ?? client.registered_at?.toMillis() ?? 0;
+    const current = newest.get(token);
+    if (!current || seenMs > current.seenMs) {
+      newest.set(token, { id: doc.id, client, token, seenMs });
+    }
+  }
+
+  return [...newest.values()].flatMap(({ id, client, token }) => {
+    const delivery = deliveryFor(client, type);
+    if (delivery === "off") return [];
+    const platform = PLATFORMS.find((p) => p === client.platform) ?? "unknown";
+    return [
+      {
+        clientId: id,
+        userId: client.user_id,
+        token,
+        platform,
+        locale: client.locale,
+        delivery,
+      },
+    ];
+  });
+}
+
+/**
+ * Devices of a few users, e.g. the players of a match, keyed by user id.
+ * @param {string[]} userIds The users, at most 30
+ * @param {NotificationType} type The notification type
+ * @return {Promise<Map<string, Device[]>>} Devices to notify by user
+ */
+export async function devicesOfUsers(
+  userIds: string[],
+  type: NotificationType
+): Promise<Map<string, Device[]>> {
+  const byUser = new Map<string, Device[]>();
+  if (userIds.length === 0) return byUser;
+
+  const snapshot = await db
+    .collection("clients")
+    .where("user_id", "in", userIds)
+    .get();
+  for (const device of await resolveDevices(snapshot.docs, type)) {
+    byUser.set(device.userId, [...(byUser.get(device.userId) ?? []), device]);
+  }
+  return byUser;
+}
+
+/**
+ * Validates the optional fields shared by register and refresh.
+ * @param {DeviceRequest} data The callable request data
+ * @return {object} Client document fields and notification preferences
+ */
+function deviceFields(data: DeviceRequest): {
+  fields: admin.firestore.DocumentData;
+  preferences: Record<string, Delivery>;
+} {
+  const fields: admin.firestore.DocumentData = {};
+  const preferences: Record<string, Delivery> = {};
+
+  if (data.platform !== undefined) {
+    if (!PLATFORMS.includes(data.platform as (typeof PLATFORMS)[number])) {
+      throw new HttpsError("invalid-argument", "Unknown platform");
+    }
+    fields.platform = data.platform;
+  }
+  if (data.appVersion !== undefined) {
+    if (typeof data.appVersion !== "string") {
+      throw new HttpsError("invalid-argument", "appVersion must be a string");
+    }
+    fields.app_version = data.appVersion;
+  }
+  if (data.locale !== undefined) {
+    if (typeof data.locale !== "string") {
+      throw new HttpsError("invalid-argument", "locale must be a string");
+    }
+    fields.locale = data.locale;
+  }
+  if (data.utcOffsetMinutes !== undefined) {
+    if (
+      !Number.isInteger(data.utcOffsetMinutes) ||
+      Math.abs(data.utcOffsetMinutes as number) > 14 * 60
+    ) {
+      throw new HttpsError("invalid-argument", "Invalid utcOffsetMinutes");
+    }
+    fields.utc_offset_minutes = data.utcOffsetMinutes;
+  }
+  if (data.preferences !== undefined) {
+    if (!data.preferences || typeof data.preferences !== "object") {
+      throw new HttpsError("invalid-argument", "preferences must be an object");
+    }
+    for (const [type, delivery] of Object.entries(data.preferences)) {
+      if (!DELIVERIES.includes(delivery as Delivery)) {
+        throw new HttpsError(
+          "invalid-argument",
+          `Invalid delivery ${delivery} for ${type}`
+        );
+      }
+      preferences[type] = delivery;
+    }
+  }
+  return { fields, preferences };
+}
+
+/**
+ * Validates the device id and token of a request.
+ * @param {DeviceRequest} data The callable request data
+ * @param {boolean} tokenRequired Whether the token must be present
+ * @return {object} The validated device id and token
+ */
+function deviceIdentity(
+  data: DeviceRequest,
+  tokenRequired: boolean
+): { deviceId: string; token?: string } {
+  if (typeof data.deviceId !== "string" || data.deviceId.length === 0) {
+    throw new HttpsError("invalid-argument", "deviceId is required");
+  }
+  if (data.token !== undefined && typeof data.token !== "string") {
+    throw new HttpsError("invalid-argument", "token must be a string");
+  }
+  if (tokenRequired && !data.token) {
+    throw new HttpsError("invalid-argument", "token is required");
+  }
+  return { deviceId: data.deviceId, token: data.token as string | undefined };
+}
+
+/**
+ * Removes other registrations of a token, e.g. after the app was reinstalled
+ * or the device switched accounts.
+ * @param {string} token The FCM token
+ * @param {string} deviceId The registration to keep
+ * @return {Promise<number>} Number of removed registrations
+ */
+async function removeDuplicateRegistrations(
+  token: string,
+  deviceId: string
+): Promise<number> {
+  const snapshot = await db
+    .collection("clients")
+    .where("fcm_token", "==", token)
+    .get();
+  const duplicates = snapshot.docs.filter((doc) => doc.id !== deviceId);
+  await Promise.all(duplicates.map((doc) => doc.ref.delete()));
+  return duplicates.length;
+}
+
+/**
+ * Registers a device for push notifications, replacing earlier registrations
+ * of the same token. A device registered by another user can only be taken
+ * over with its current token.
+ * Document path: clients/{deviceId}
+ */
+export const registerDevice = onCall(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw new HttpsError("unauthenticated", "Sign in to register devices");
+  }
+
+  const data = (request.data ?? {}) as DeviceRequest;
+  const { deviceId, token } = deviceIdentity(data, true);
+  const { fields, preferences } = deviceFields(data);
+  const now = admin.firestore.Timestamp.now();
+
+  const clientRef = db.collection("clients").doc(deviceId);
+  const existingData = (await clientRef.get()).data();
+  // Signing in with another account on the same device keeps its token
+  if (
+    existingData?.user_id &&
+    existingData.user_id !== uid &&
+    existingData.fcm_token !== token
+  ) {
+    throw new HttpsError("permission-denied", "Device belongs to another user");
+  }
+  const existing = tryParse(parseClient, existingData);
+
+  // Replaces the document so invalid-token markers of a previous token go away
+  await clientRef.withConverter(clientConverter).set({
+    platform: "unknown",
+    ...fields,
+    user_id: uid,
+    fcm_token: token as string,
+    notification_preferences: {
+      // Keep the preferences of the same user's earlier registration
+      ...(existing?.user_id === uid && existing.notification_preferences),
+      ...preferences,
+    },
+    registered_at: existing?.registered_at ?? now,
+    last_seen_at: now,
+    schema_version: SCHEMA_VERSION,
+  });
+
+  const removed = await removeDuplicateRegistrations(token as string, deviceId);
+  logger.info("device_registered", {
+    device_id: deviceId,
+    user_id: uid,
+    duplicates_removed: removed,
+  });
+  return { deviceId };
+});
+
+/**
+ * Updates last-seen time and, when given, the token and device details of a
+ * registered device.
+ */
+export const refreshDevice = onCall(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw new HttpsError("unauthenticated", "Sign in to refresh devices");
+  }
+
+  const data = (request.data ?? {}) as DeviceRequest;
+  const { deviceId, token } = deviceIdentity(data, false);
+  const { fields, preferences } = deviceFields(data);
+
+  const clientRef = db.collection("clients").doc(deviceId);
+  const client = await clientRef.get();
+  if (!client.exists || client.data()?.user_id !== uid) {
+    throw new HttpsError("not-found", "Device is not registered");
+  }
+
+  await clientRef.update({
+    ...fields,
+    ...Object.fromEntries(
+      Object.entries(preferences).map(([type, delivery]) => [
+        `notification_preferences.${type}`,
+        delivery,
+      ])
+    ),
+    ...(token && {
+      fcm_token: token,
+      fcm_token_invalid: admin.firestore.FieldValue.delete(),
+      fcm_token_invalid_reason: admin.firestore.FieldValue.delete(),
+      fcm_token_invalidated_at: admin.firestore.FieldValue.delete(),
+    }),
+    last_seen_at: admin.firestore.Timestamp.now(),
+  });
+
+  if (token && token !== client.data()?.fcm_token) {
+    await removeDuplicateRegistrations(token, deviceId);
+    logger.info("device_token_refreshed", {
+      device_id: deviceId,
+      user_id: uid,
+    });
+  }
+  return { deviceId };
+});
+
+/**
+ * Removes a device registration, e.g. on sign-out.
+ */
+export const unregisterDevice = onCall(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw new HttpsError("unauthenticated", "Sign in to unregister devices");
+  }
+
+  const { deviceId } = deviceIdentity(
+    (request.data ?? {}) as DeviceRequest,
+    false
+  );
+  const clientRef = db.collection("clients").doc(deviceId);
+  const client = await clientRef.get();
+  if (client.exists && client.data()?.user_id !== uid) {
+    throw new HttpsError("permission-denied", "Device belongs to another user");
+  }
+
+  await clientRef.delete();
+  logger.info("device_unregistered", { device_id: deviceId, user_id: uid });
+  return { deviceId };
+});
+
+/**
+ * Fields that differ between two versions of a document.
+ * @param {admin.firestore.DocumentData} before The earlier data
+ * @param {admin.firestore.DocumentData} after The later data
+ * @return {string[]} The changed top-level field names
+ */
+function changedFields(
+  before: admin.firestore.DocumentData,
+  after: admin.firestore.DocumentData
+): string[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...fields].filter(
+    (field) => !isDeepStrictEqual(before[field], after[field])
+  );
+}
+
+/**
+ * Stamps `last_seen_at` on every write by the app to a client document, e.g.
+ * by app versions that write `clients` directly instead of calling
+ * registerDevice or refreshDevice, so they are not left out of queue-join
+ * audiences after a week. Writes that already set it, including this
+ * trigger's own, and token upkeep by the server are skipped.
+ * Document path: clients/{deviceId}
+ */
+export const stampClientActivity = onDocumentWritten(
+  "clients/{deviceId}",
+  async (event) => {
+    const after = event.data?.after;
+    if (!after?.exists) return;
+    const afterData = after.data() ?? {};
+    const changed = changedFields(event.data?.before.data() ?? {}, afterData);
+
+    if (changed.length === 0 || changed.includes("last_seen_at")) return;
+    // pruneDeadTokens also removes the token itself
+    const pruned =
+      changed.includes("fcm_token_invalid") &&
+      afterData.fcm_token_invalid === true;
+    if (pruned || changed.every((f) => SERVER_CLIENT_FIELDS.includes(f))) {
+      return;
+    }
+
+    await after.ref.update({
+      last_seen_at: after.updateTime ?? admin.firestore.Timestamp.now(),
+    });
+  }
+);
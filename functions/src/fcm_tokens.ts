@@ -0,0 +1,199 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+
+const db = admin.firestore();
+
+// FCM error codes meaning the token will never be deliverable again
+const DEAD_TOKEN_ERROR_CODES = [
+  "messaging/registration-token-not-registered",
+  "messaging/invalid-registration-token",
+];
+// Also returned for a bad payload, which says nothing about the token
+const INVALID_ARGUMENT = "messaging/invalid-argument";
+
+const STALE_TOKEN_DAYS = 14; // Re-validate tokens not validated for this long
+const CLIENTS_PAGE_SIZE = 500;
+const IN_QUERY_LIMIT = 30; // Firestore limit for "in" filters
+
+export interface DeadToken {
+  token: string;
+  code: string;
+}
+
+/**
+ * Whether an FCM error means the token should be pruned. An invalid argument
+ * only does when the message blames the registration token.
+ * @param {string} code The FCM error code
+ * @param {string} message The FCM error message
+ * @return {boolean} Whether the token is dead
+ */
+export function isDeadTokenError(code?: string, message?: string): boolean {
+  if (code === INVALID_ARGUMENT) {
+    return /registration token/i.test(message ?? "");
+  }
+  return !!code && DEAD_TOKEN_ERROR_CODES.includes(code);
+}
+
+/**
+ * Removes dead tokens from the `clients` documents holding them. The token is
+ * deleted and the reason kept on the document so the app can re-register.
+ * @param {DeadToken[]} deadTokens The tokens and the FCM error they failed with
+ * @return {Promise<number>} Number of client documents updated
+ */
+export async function pruneDeadTokens(
+  deadTokens: DeadToken[]
+): Promise<number> {
+  if (deadTokens.length === 0) return 0;
+
+  const codeByToken = new Map(deadTokens.map((d) => [d.token, d.code]));
+  const tokens = [...codeByToken.keys()];
+  const now = admin.firestore.Timestamp.now();
+  const writer = db.bulkWriter();
+  const writes: Promise<void>[] = [];
+  let pruned = 0;
+  let failed = 0;
+
+  for (let i = 0; i < tokens.length; i += IN_QUERY_LIMIT) {
+    const snapshot = await db
+      .collection("clients")
+      .where("fcm_token", "in", tokens.slice(i, i + IN_QUERY_LIMIT))
+      .get();
+
+    snapshot.docs.forEach((doc) => {
+      const token: string = doc.data().fcm_token;
+      writes.push(
+        writer
+          .update(doc.ref, {
+            fcm_token: admin.firestore.FieldValue.delete(),
+            fcm_token_invalid: true,
+            fcm_token_invalid_reason: codeByToken.get(token) ?? null,
+            fcm_token_invalidated_at: now,
+          })
+          .then(() => {
+            pruned++;
+          })
+          .catch((error) => {
+            // E.g. the client was unregistered meanwhile
+            failed++;
+            logger.warn("dead_token_prune_failed", {
+              client_id: doc.id,
+              error: String(error),
+            });
+          })
+      );
+    });
+  }
+
+  await writer.close();
+  await Promise.all(writes);
+  logger.info("dead_tokens_pruned", {
+    pruned,
+    failed,
+    tokens: tokens.length,
+  });
+  return pruned;
+}
+
+/**
+ * Sends dry-run messages to tokens that haven't been validated recently and
+ * prunes the ones FCM rejects. Also backfills `last_seen_at` of clients
+ * registered before it existed, so they stay in queue-join audiences.
+ */
+export const validateStaleTokens = onSchedule("every 24 hours", async () => {
+  const now = admin.firestore.Timestamp.now();
+  const staleBefore = now.toMillis() - STALE_TOKEN_DAYS * 24 * 60 * 60 * 1000;
+
+  let checked = 0;
+  let lastDoc: admin.firestore.QueryDocumentSnapshot | undefined;
+  const deadTokens: DeadToken[] = [];
+  const validatedRefs: admin.firestore.DocumentReference[] = [];
+  const unseen: admin.firestore.QueryDocumentSnapshot[] = [];
+
+  for (;;) {
+    let query = db
+      .collection("clients")
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .limit(CLIENTS_PAGE_SIZE);
+    if (lastDoc) {
+      query = query.startAfter(lastDoc);
+    }
+
+    const page = await query.get();
+    if (page.empty) break;
+    lastDoc = page.docs[page.docs.length - 1];
+    unseen.push(...page.docs.filter((doc) => !doc.data().last_seen_at));
+
+    // Docs without a validation timestamp have never been checked
+    const stale = page.docs.filter((doc) => {
+      const data = doc.data();
+      const validatedAt: admin.firestore.Timestamp | undefined =
+        data.fcm_token_validated_at;
+      return (
+        typeof data.fcm_token === "string" &&
+        (!validatedAt || validatedAt.toMillis() < staleBefore)
+      );
+    });
+    if (stale.length === 0) continue;
+
+    const response = await admin.messaging().sendEach(
+      stale.map((doc) => ({
+        token: doc.data().fcm_token,
+        data: { type: "token_validation" },
+      })),
+      true // dryRun
+    );
+
+    response.responses.forEach((resp, index) => {
+      const doc = stale[index];
+      if (resp.success) {
+        validatedRefs.push(doc.ref);
+      } else if (isDeadTokenError(resp.error?.code, resp.error?.message)) {
+        deadTokens.push({
+          token: doc.data().fcm_token,
+          code: resp.error?.code as string,
+        });
+      } else {
+        logger.warn("token_validation_failed", {
+          client_id: doc.id,
+          error: resp.error?.message,
+        });
+      }
+    });
+    checked += stale.length;
+  }
+
+  const writer = db.bulkWriter();
+  let failed = 0;
+  const update = (
+    ref: admin.firestore.DocumentReference,
+    data: admin.firestore.UpdateData<admin.firestore.DocumentData>
+  ): Promise<void> =>
+    writer
+      .update(ref, data)
+      .then(() => undefined)
+      .catch((error) => {
+        // E.g. the client was unregistered meanwhile
+        failed++;
+        logger.warn("client_update_failed", {
+          client_id: ref.id,
+          error: String(error),
+        });
+      });
+  const writes = [
+    ...validatedRefs.map((ref) => update(ref, { fcm_token_validated_at: now })),
+    // The last write by the app is the best guess of when it was last seen
+    ...unseen.map((doc) => update(doc.ref, { last_seen_at: doc.updateTime })),
+  ];
+  await writer.close();
+  await Promise.all(writes);
+
+  const pruned = await pruneDeadTokens(deadTokens);
+  logger.info("stale_token_validation_completed", {
+    checked,
+    valid: validatedRefs.length,
+    pruned,
+    backfilled: unseen.length,
+    failed,
+  });
+});
@@ -1,20 +1,108 @@
 import * as admin from "firebase-admin";
-import { onCall } from "firebase-functions/v2/https";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
 
 if (!admin.apps.length) {
   admin.initializeApp();
 }
 
 // Import functions from separate modules
+import { advanceBotMatches } from "./bots";
+import {
+  acceptChallenge,
+  createChallenge,
+  declineChallenge,
+  expireChallenges,
+} from "./challenges";
 import { onMatchDeleted } from "./complete_match";
-import { onQueueUpdated } from "./match_making";
-import { notifyUsersOnQueueJoin } from "./notify_pushover";
+import {
+  refreshDevice,
+  registerDevice,
+  stampClientActivity,
+  unregisterDevice,
+} from "./devices";
+import { validateStaleTokens } from "./fcm_tokens";
+import { sweepExpiredMatches } from "./match_expiry";
+import { repairDuplicateHistory } from "./match_history";
+import { matchWaitingUser, onQueueUpdated } from "./match_making";
+import { getQueueMetrics } from "./metrics";
+import {
+  banUser,
+  overrideMatchResult,
+  unbanUser,
+  voidMatchResult,
+} from "./moderation";
+import {
+  notifyMatchFound,
+  notifyMatchResult,
+  notifyOpponentFinished,
+} from "./match_notifications";
+import {
+  clearAlertsOnQueueLeave,
+  notifyUsersOnQueueJoin,
+} from "./notify_pushover";
+import { getLeaderboard } from "./player_stats";
+import { matchRef, requireMatch } from "./matches";
+import { heartbeat, matchClock, rejoinMatch, requireMatchId } from "./presence";
+import { seedPuzzleCatalog } from "./puzzles";
+import { sweepQueue } from "./queue_janitor";
+import { getQueueStatus } from "./queue_status";
+import { getReplay } from "./replays";
+import { getSeasonStanding, rolloverSeasons, scheduleSeason } from "./seasons";
+import { submitMove } from "./submissions";
 
 // Export all functions
-export { onMatchDeleted, onQueueUpdated, notifyUsersOnQueueJoin };
+export {
+  onMatchDeleted,
+  onQueueUpdated,
+  matchWaitingUser,
+  notifyUsersOnQueueJoin,
+  submitMove,
+  sweepExpiredMatches,
+  repairDuplicateHistory,
+  createChallenge,
+  acceptChallenge,
+  declineChallenge,
+  expireChallenges,
+  getLeaderboard,
+  seedPuzzleCatalog,
+  validateStaleTokens,
+  clearAlertsOnQueueLeave,
+  registerDevice,
+  refreshDevice,
+  unregisterDevice,
+  stampClientActivity,
+  notifyMatchFound,
+  notifyOpponentFinished,
+  notifyMatchResult,
+  heartbeat,
+  rejoinMatch,
+  getReplay,
+  advanceBotMatches,
+  rolloverSeasons,
+  scheduleSeason,
+  getSeasonStanding,
+  getQueueMetrics,
+  sweepQueue,
+  getQueueStatus,
+  banUser,
+  unbanUser,
+  overrideMatchResult,
+  voidMatchResult,
+};
 
-export const getServerTime = onCall(async () => {
-  return {
-    timestamp: admin.firestore.Timestamp.now().toMillis(),
-  };
+// With a matchId, also returns the server-side clock of that match
+export const getServerTime = onCall(async (request) => {
+  const timestamp = admin.firestore.Timestamp.now().toMillis();
+  if (request.data?.matchId === undefined) {
+    return { timestamp };
+  }
+
+  const uid = request.auth?.uid;
+  const match = requireMatch(
+    await matchRef(requireMatchId(request.data)).get()
+  );
+  if (!uid || !match.players.includes(uid)) {
+    throw new HttpsError("permission-denied", "Not a player in this match");
+  }
+  return { timestamp, ...matchClock(match, timestamp) };
 });
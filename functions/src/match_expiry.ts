@@ -0,0 +1,115 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { finalizeMatch } from "./complete_match";
+import { getGameConfig } from "./config";
+import { quarantine } from "./dead_letters";
+import { Match, parseMatch, SchemaError } from "./schema";
+
+const db = admin.firestore();
+
+const SWEEP_LIMIT = 200;
+// After this many failed attempts a match is quarantined and removed, so
+// matches that never finalize don't pile up ahead of the others
+const MAX_FINALIZE_ATTEMPTS = 5;
+
+/**
+ * Counts a failed finalization of an expired match. Once it failed
+ * MAX_FINALIZE_ATTEMPTS times, the match is quarantined and removed.
+ * @param {admin.firestore.QueryDocumentSnapshot} doc The match document
+ * @param {Match} match The match
+ * @param {unknown} error Why finalizing it failed
+ */
+async function recordFinalizeFailure(
+  doc: admin.firestore.QueryDocumentSnapshot,
+  match: Match,
+  error: unknown
+): Promise<void> {
+  const failures = (match.finalize_failures ?? 0) + 1;
+  logger.error("expired_match_finalize_failed", {
+    match_id: doc.id,
+    failures,
+    error: String(error),
+  });
+  if (failures < MAX_FINALIZE_ATTEMPTS) {
+    await doc.ref.update({
+      finalize_failures: admin.firestore.FieldValue.increment(1),
+    });
+    return;
+  }
+
+  await quarantine(
+    doc.ref,
+    doc.data(),
+    error instanceof Error ? error : new Error(String(error)),
+    "expiry_sweeper"
+  );
+  // onMatchDeleted makes one last attempt for this delete
+  await doc.ref.delete();
+}
+
+/**
+ * Finalizes and removes matches whose `max_duration` has elapsed without a
+ * client deleting them, e.g. because both clients crashed.
+ */
+export const sweepExpiredMatches = onSchedule("every 1 minutes", async () => {
+  const config = await getGameConfig();
+  const graceMs = config.match_expiry_grace_seconds * 1000;
+  const now = admin.firestore.Timestamp.now();
+
+  // Narrow by start_at first; each match's own max_duration is checked below
+  const cutoff = admin.firestore.Timestamp.fromMillis(now.toMillis() - graceMs);
+
+  const snapshot = await db
+    .collection("matches")
+    .where("start_at", "<", cutoff)
+    .orderBy("start_at")
+    .limit(SWEEP_LIMIT)
+    .get();
+
+  let expiredCount = 0;
+
+  for (const doc of snapshot.docs) {
+    const data = doc.data();
+    let match: Match;
+    try {
+      match = parseMatch(data);
+    } catch (error) {
+      if (!(error instanceof SchemaError)) throw error;
+      // A malformed match can never be finalized; set it aside and remove it
+      await quarantine(doc.ref, data, error, "expiry_sweeper");
+      await doc.ref.delete();
+      continue;
+    }
+    const maxDurationMs = (match.max_duration ?? 0) * 1000;
+    const expiresAt = match.start_at.toMillis() + maxDurationMs;
+
+    if (expiresAt + graceMs > now.toMillis()) {
+      continue;
+    }
+
+    expiredCount++;
+
+    try {
+      await finalizeMatch(doc.id, data, {
+        finalizedBy: "expiry_sweeper",
+        fallbackCompletedAt: admin.firestore.Timestamp.fromMillis(expiresAt),
+      });
+      // onMatchDeleted fires for this delete and finds the match finalized
+      await doc.ref.delete();
+      logger.info("expired_match_finalized", { match_id: doc.id });
+    } catch (error) {
+      await recordFinalizeFailure(doc, match, error).catch((recordError) =>
+        logger.error("finalize_failure_not_recorded", {
+          match_id: doc.id,
+          error: String(recordError),
+        })
+      );
+    }
+  }
+
+  logger.info("expiry_sweep_completed", {
+    expired: expiredCount,
+    checked: snapshot.size,
+  });
+});
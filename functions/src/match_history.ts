@@ -0,0 +1,201 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+
+const db = admin.firestore();
+
+const REPAIR_PAGE_SIZE = 300;
+// Pages per call, so each call ends well within the callable timeout
+const REPAIR_PAGES_PER_CALL = 10;
+// gRPC status of a create whose document already exists
+const ALREADY_EXISTS = 6;
+
+/**
+ * Deterministic history document for a player in a match, so retried
+ * trigger deliveries overwrite instead of duplicating.
+ * Document path: match_history/{matchId}_{playerId}
+ * @param {string} matchId The match id
+ * @param {string} playerId The player id
+ * @return {admin.firestore.DocumentReference} The history document reference
+ */
+export function historyRef(
+  matchId: string,
+  playerId: string
+): admin.firestore.DocumentReference {
+  return db.collection("match_history").doc(`${matchId}_${playerId}`);
+}
+
+interface HistoryRepair {
+  doc: admin.firestore.QueryDocumentSnapshot;
+  targetRef: admin.firestore.DocumentReference;
+  targetExists: boolean;
+}
+
+/**
+ * Whether an auto-ID entry is the first of its match and player by document
+ * id, which is the one a repair moves. Lets a dry run resumed from a cursor
+ * count entries like the real run, which sees earlier moves in Firestore.
+ * @param {admin.firestore.QueryDocumentSnapshot} doc The auto-ID entry
+ * @param {admin.firestore.DocumentReference} targetRef Its deterministic ID
+ * @return {Promise<boolean>} Whether no earlier entry shares the target
+ */
+async function isFirstDuplicate(
+  doc: admin.firestore.QueryDocumentSnapshot,
+  targetRef: admin.firestore.DocumentReference
+): Promise<boolean> {
+  const siblings = await db
+    .collection("match_history")
+    .where("match_id", "==", doc.data().match_id)
+    .where("player_id", "==", doc.data().player_id)
+    .select()
+    .get();
+  return siblings.docs.every(
+    (sibling) => sibling.id === targetRef.id || sibling.id >= doc.id
+  );
+}
+
+/**
+ * Moves auto-ID entries to their deterministic IDs and deletes the rest. An
+ * entry is only deleted once its target exists, so a failed move keeps it.
+ * @param {HistoryRepair[]} repairs Entries of one page
+ * @return {Promise<number>} Number of entries left in place after a failure
+ */
+async function applyRepairs(repairs: HistoryRepair[]): Promise<number> {
+  const writer = db.bulkWriter();
+  const existing = new Set(
+    repairs
+      .filter((repair) => repair.targetExists)
+      .map((repair) => repair.targetRef.id)
+  );
+
+  // The first entry of a target moves; later ones are duplicates of it
+  const moved = new Set<string>();
+  for (const { doc, targetRef, targetExists } of repairs) {
+    if (targetExists || moved.has(targetRef.id)) continue;
+    moved.add(targetRef.id);
+    writer
+      .create(targetRef, doc.data())
+      .then(() => existing.add(targetRef.id))
+      .catch((error) => {
+        if (error.code === ALREADY_EXISTS) {
+          existing.add(targetRef.id);
+          return;
+        }
+        logger.error("history_move_failed", {
+          entry_id: doc.id,
+          target_id: targetRef.id,
+          error: String(error),
+        });
+      });
+  }
+  await writer.flush();
+
+  let failed = 0;
+  for (const { doc, targetRef } of repairs) {
+    if (existing.has(targetRef.id)) {
+      writer.delete(doc.ref);
+    } else {
+      failed++;
+    }
+  }
+  await writer.close();
+  return failed;
+}
+
+/**
+ * One-off repair job for entries written before history IDs were
+ * deterministic. Each auto-ID entry is moved to its deterministic ID, or
+ * deleted when an entry for the same match and player already exists there.
+ * Each call repairs up to REPAIR_PAGES_PER_CALL pages and returns a cursor;
+ * call again with `{cursor}` until it is null.
+ * Request: { dryRun?: boolean, cursor?: string }
+ * Restricted to users with the `admin` custom claim.
+ */
+export const repairDuplicateHistory = onCall(async (request) => {
+  if (request.auth?.token.admin !== true) {
+    throw new HttpsError("permission-denied", "Admin only");
+  }
+
+  const dryRun = request.data?.dryRun === true;
+  const cursor: unknown = request.data?.cursor ?? null;
+  if (cursor !== null && typeof cursor !== "string") {
+    throw new HttpsError("invalid-argument", "cursor must be a string");
+  }
+
+  let scanned = 0;
+  let moved = 0;
+  let removed = 0;
+  let failed = 0;
+  let lastId = cursor;
+  let done = false;
+  // Targets moved to in this call, so their other entries count as removed
+  const seenTargets = new Set<string>();
+
+  for (let pages = 0; pages < REPAIR_PAGES_PER_CALL && !done; pages++) {
+    let query = db
+      .collection("match_history")
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .limit(REPAIR_PAGE_SIZE);
+    if (lastId) {
+      query = query.startAfter(lastId);
+    }
+
+    const page = await query.get();
+    scanned += page.size;
+    done = page.size < REPAIR_PAGE_SIZE;
+    if (page.empty) break;
+    lastId = page.docs[page.docs.length - 1].id;
+
+    const candidates = page.docs.flatMap((doc) => {
+      const { match_id: matchId, player_id: playerId } = doc.data();
+      if (!matchId || !playerId) {
+        logger.warn("history_entry_unkeyed", { entry_id: doc.id });
+        return [];
+      }
+      const targetRef = historyRef(matchId, playerId);
+      return targetRef.id === doc.id ? [] : [{ doc, targetRef }];
+    });
+    if (candidates.length === 0) continue;
+
+    const targets = await db.getAll(
+      ...candidates.map(({ targetRef }) => targetRef)
+    );
+    const repairs: HistoryRepair[] = [];
+    for (const [index, { doc, targetRef }] of candidates.entries()) {
+      const targetExists = targets[index].exists;
+      let moves = !targetExists && !seenTargets.has(targetRef.id);
+      if (moves && dryRun && cursor !== null) {
+        moves = await isFirstDuplicate(doc, targetRef);
+      }
+      seenTargets.add(targetRef.id);
+      repairs.push({ doc, targetRef, targetExists });
+
+      if (moves) {
+        moved++;
+      } else {
+        removed++;
+        logger.info("history_duplicate_removed", {
+          entry_id: doc.id,
+          target_id: targetRef.id,
+          dry_run: dryRun,
+        });
+      }
+    }
+
+    if (!dryRun) {
+      failed += await applyRepairs(repairs);
+    }
+  }
+
+  const nextCursor = done ? null : lastId;
+  logger.info("history_repair_completed", {
+    dry_run: dryRun,
+    scanned,
+    moved,
+    removed,
+    failed,
+    cursor: nextCursor,
+  });
+
+  return { dryRun, scanned, moved, removed, failed, cursor: nextCursor };
+});
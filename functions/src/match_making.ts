@@ -1,113 +1,536 @@
 import * as admin from "firebase-admin";
+import { getFunctions } from "firebase-admin/functions";
+import * as logger from "firebase-functions/logger";
 import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { onTaskDispatched } from "firebase-functions/v2/tasks";
+import { activeCooldown, notifyQueueCooldown, penaltyRef } from "./abandonment";
+import { createBotPlayer, planBot } from "./bots";
+import { GameConfig, getGameConfig } from "./config";
+import { quarantine } from "./dead_letters";
+import { matchRef } from "./matches";
+import { recordEvent } from "./metrics";
+import { activeRestriction, moderationRef } from "./moderation";
+import { findPuzzle, selectPuzzleId } from "./puzzles";
+import { ratingRef, ratingWindow, readRating } from "./ratings";
+import {
+  Match,
+  QueueEntry,
+  SCHEMA_VERSION,
+  SchemaError,
+  parseQueueEntry,
+  tryParse,
+} from "./schema";
+import { submissionRef } from "./submissions";
 
 const db = admin.firestore();
 
-const QUEUE_TTL_SECONDS = 45;
-const EXCLUDED_LEVELS_LIST = ["cls:37", "cls:51"]; // Add levels to exclude from random selection
-
-// Function to generate a random puzzle ID excluding specified levels
-function generateRandomPuzzleId(): string {
-  let puzzleId: string;
-  do {
-    const randomNum = Math.floor(Math.random() * 283) + 20;
-    puzzleId = "cls:" + randomNum;
-  } while (EXCLUDED_LEVELS_LIST.includes(puzzleId));
-  return puzzleId;
+const MAX_CANDIDATES = 25; // Oldest queue entries considered for pairing
+const MIN_LOBBY_SIZE = 2;
+const MAX_LOBBY_SIZE = 8;
+const WAITING_USER_QUEUE = "matchWaitingUser";
+
+export interface MatchPlayer {
+  id: string;
+  username?: string | null;
+  avatar?: string | null;
+  rating: number;
+}
+
+/**
+ * Data for a new `matches/{matchId}` document, shared by the public queue and
+ * private challenges.
+ * @param {MatchPlayer[]} players The players in the match
+ * @param {object} options Lobby size, creation time, puzzle and tuning
+ * @return {Match} The match document data
+ */
+export function buildMatchData(
+  players: MatchPlayer[],
+  options: {
+    lobbySize: number;
+    now: admin.firestore.Timestamp;
+    puzzleId: string;
+    config: GameConfig;
+  }
+): Match {
+  const startAt = admin.firestore.Timestamp.fromMillis(
+    options.now.toMillis() + options.config.match_start_delay_ms
+  );
+
+  return {
+    players: players.map((player) => player.id),
+    lobby_size: options.lobbySize,
+    start_at: startAt,
+    puzzle_id: options.puzzleId,
+    created_at: options.now,
+    max_duration: options.config.match_max_duration_seconds, // seconds
+    player_states: Object.fromEntries(
+      players.map((player) => [
+        player.id,
+        {
+          username: player.username ?? null,
+          avatar: player.avatar ?? null,
+          rating: player.rating,
+        },
+      ])
+    ),
+    schema_version: SCHEMA_VERSION,
+  };
+}
+
+interface LobbyMember {
+  doc: admin.firestore.DocumentSnapshot;
+  entry: QueueEntry;
+  rating: number;
+  waitedMs: number;
+}
+
+// What a matchmaking attempt did, reported once the transaction committed
+type QueueOutcome =
+  | { kind: "waiting" }
+  | { kind: "restricted" }
+  | { kind: "cooldown"; until: admin.firestore.Timestamp }
+  | {
+      kind: "matched";
+      lobby: LobbyMember[];
+      lobbySize: number;
+      opponentRatings: number[];
+    };
+
+/**
+ * Lobby size requested by a queue entry.
+ * @param {QueueEntry} entry The queue entry
+ * @return {number} The lobby size clamped to the supported range
+ */
+export function lobbySizeOf(entry: QueueEntry): number {
+  return Math.min(MAX_LOBBY_SIZE, Math.max(MIN_LOBBY_SIZE, entry.lobby_size));
+}
+
+/**
+ * Each side accepts a window that widens with its own wait time; a pair is
+ * allowed if either window covers the rating difference, so a long-waiting
+ * player gets matched when anyone new joins the queue.
+ * @param {LobbyMember} a The first player
+ * @param {LobbyMember} b The second player
+ * @return {boolean} Whether the two players may be matched
+ */
+function withinRatingWindow(a: LobbyMember, b: LobbyMember): boolean {
+  const window = Math.max(ratingWindow(a.waitedMs), ratingWindow(b.waitedMs));
+  return Math.abs(a.rating - b.rating) <= window;
+}
+
+/**
+ * Matches a user who waited too long for a human against a bot of similar
+ * rating, within the matchmaking transaction.
+ * @param {admin.firestore.Transaction} tx The matchmaking transaction
+ * @param {LobbyMember} user The waiting user
+ * @param {string} matchId The id of the new match
+ * @param {admin.firestore.Timestamp} now The current time
+ * @param {GameConfig} config Match tuning
+ * @return {Promise<MatchPlayer>} The bot
+ */
+async function startBotMatch(
+  tx: admin.firestore.Transaction,
+  user: LobbyMember,
+  matchId: string,
+  now: admin.firestore.Timestamp,
+  config: GameConfig
+): Promise<MatchPlayer> {
+  const bot = createBotPlayer(user.rating);
+  const puzzleId = await selectPuzzleId([user.doc.id], [user.rating]);
+  const puzzle = await findPuzzle(puzzleId);
+
+  const matchData = buildMatchData(
+    [
+      {
+        id: user.doc.id,
+        username: user.entry.username,
+        avatar: user.entry.avatar,
+        rating: user.rating,
+      },
+      bot,
+    ],
+    { lobbySize: 2, now, puzzleId, config }
+  );
+  matchData.bot_ids = [bot.id];
+  matchData.has_bots = true;
+  matchData.player_states[bot.id].is_bot = true;
+
+  tx.set(matchRef(matchId), matchData);
+  // The plan is kept out of the client-writable match document
+  tx.set(submissionRef(matchId, bot.id), {
+    match_id: matchId,
+    player_id: bot.id,
+    progress: 0,
+    finished_at: null,
+    bot_plan: planBot(
+      bot.rating,
+      config.match_max_duration_seconds,
+      puzzle?.progressTotal ?? 100
+    ),
+    updated_at: now,
+  });
+  tx.delete(user.doc.ref);
+
+  logger.info("bot_match_created", {
+    match_id: matchId,
+    user_id: user.doc.id,
+    bot_id: bot.id,
+    bot_rating: bot.rating,
+    waited_ms: user.waitedMs,
+  });
+  return bot;
+}
+
+/**
+ * Tries to match a queued user with the other waiting users, or with a bot or
+ * in a smaller lobby once the user waited long enough. Runs when the user
+ * joins, again from matchWaitingUser once a fallback is due, and from
+ * sweepQueue for users whose task went missing.
+ * @param {string} userId The queued user
+ */
+export async function matchQueuedUser(userId: string): Promise<void> {
+  const config = await getGameConfig(userId);
+  const now = admin.firestore.Timestamp.now();
+  const queueRef = db.collection("match_queue").doc(userId);
+
+  const cutoff = admin.firestore.Timestamp.fromDate(
+    new Date(now.toDate().getTime() - config.queue_ttl_seconds * 1000)
+  );
+
+  const matchId = db.collection("matches").doc().id;
+
+  // Atomically find partner and create match to prevent race conditions
+  const outcome = await db.runTransaction(async (tx): Promise<QueueOutcome> => {
+    // Re-check current user's queue doc first
+    const currentQueueDoc = await tx.get(queueRef);
+    const current = tryParse(parseQueueEntry, currentQueueDoc.data());
+    if (!current) {
+      logger.info("matchmaking_skipped", {
+        user_id: userId,
+        reason: "left_queue",
+      });
+      return { kind: "waiting" };
+    }
+
+    // Banned and suspended users are taken out of the queue
+    const restriction = activeRestriction(
+      await tx.get(moderationRef(userId)),
+      now
+    );
+    if (restriction) {
+      logger.info("matchmaking_skipped", {
+        user_id: userId,
+        reason: "restricted",
+        status: restriction.status,
+      });
+      tx.delete(queueRef);
+      return { kind: "restricted" };
+    }
+
+    // Serial dodgers sit out their cooldown before being matched
+    const userCooldown = activeCooldown(await tx.get(penaltyRef(userId)), now);
+    if (userCooldown) {
+      logger.info("matchmaking_skipped", {
+        user_id: userId,
+        reason: "cooldown",
+        cooldown_until: userCooldown.toMillis(),
+      });
+      tx.delete(queueRef);
+      return { kind: "cooldown", until: userCooldown };
+    }
+
+    // Find partners within transaction to avoid race conditions
+    const candidatesSnap = await tx.get(
+      db
+        .collection("match_queue")
+        .where("joined_at", ">", cutoff)
+        .orderBy("joined_at")
+        .limit(MAX_CANDIDATES)
+    );
+
+    // Malformed candidates are quarantined by their own trigger
+    const lobbySize = lobbySizeOf(current);
+    const candidates = candidatesSnap.docs.flatMap((doc) => {
+      const candidate = tryParse(parseQueueEntry, doc.data());
+      return doc.id !== userId &&
+        candidate &&
+        lobbySizeOf(candidate) === lobbySize
+        ? [{ doc, entry: candidate }]
+        : [];
+    });
+
+    const ratingSnaps = await tx.getAll(
+      ratingRef(userId),
+      ...candidates.map(({ doc }) => ratingRef(doc.id))
+    );
+    const [userRating, ...candidateRatings] = ratingSnaps.map(readRating);
+    const candidatePenalties =
+      candidates.length > 0
+        ? await tx.getAll(...candidates.map(({ doc }) => penaltyRef(doc.id)))
+        : [];
+    const candidateModeration =
+      candidates.length > 0
+        ? await tx.getAll(...candidates.map(({ doc }) => moderationRef(doc.id)))
+        : [];
+
+    const user: LobbyMember = {
+      doc: currentQueueDoc,
+      entry: current,
+      rating: userRating.rating,
+      waitedMs: now.toMillis() - current.joined_at.toMillis(),
+    };
+
+    // Fill the lobby with the longest-waiting candidates that are within
+    // the rating window of everyone already in it
+    const lobby: LobbyMember[] = [user];
+    for (let i = 0; i < candidates.length; i++) {
+      if (lobby.length === lobbySize) break;
+      if (activeCooldown(candidatePenalties[i], now)) continue;
+      if (activeRestriction(candidateModeration[i], now)) continue;
+
+      const candidate: LobbyMember = {
+        ...candidates[i],
+        rating: candidateRatings[i].rating,
+        waitedMs: now.toMillis() - candidates[i].entry.joined_at.toMillis(),
+      };
+      if (lobby.every((member) => withinRatingWindow(member, candidate))) {
+        lobby.push(candidate);
+      }
+    }
+
+    if (lobby.length < 2) {
+      if (
+        config.bot_match_wait_seconds > 0 &&
+        user.waitedMs >= config.bot_match_wait_seconds * 1000
+      ) {
+        const bot = await startBotMatch(tx, user, matchId, now, config);
+        return {
+          kind: "matched",
+          lobby,
+          lobbySize: 2,
+          opponentRatings: [bot.rating],
+        };
+      }
+      logger.info("matchmaking_skipped", {
+        user_id: userId,
+        reason: "no_partner_in_window",
+        rating: userRating.rating,
+        candidates: candidates.length,
+        waited_ms: user.waitedMs,
+      });
+      return { kind: "waiting" };
+    }
+
+    if (lobby.length < lobbySize) {
+      // Start with fewer players once the longest waiter hit the timeout.
+      // The matchWaitingUser task re-runs matchmaking once it is reached.
+      const longestWaitMs = Math.max(...lobby.map((m) => m.waitedMs));
+      if (longestWaitMs < config.lobby_fill_timeout_seconds * 1000) {
+        logger.info("matchmaking_skipped", {
+          user_id: userId,
+          reason: "lobby_filling",
+          players: lobby.length,
+          lobby_size: lobbySize,
+        });
+        return { kind: "waiting" };
+      }
+    }
+
+    // Double-check partners still exist in transaction
+    const partners = lobby.slice(1);
+    const partnerQueueDocs = await tx.getAll(
+      ...partners.map((member) => member.doc.ref)
+    );
+    if (partnerQueueDocs.some((doc) => !doc.exists)) {
+      logger.info("matchmaking_skipped", {
+        user_id: userId,
+        reason: "partner_left",
+      });
+      return { kind: "waiting" };
+    }
+
+    const playerIds = lobby.map((member) => member.doc.id);
+
+    const puzzleId = await selectPuzzleId(
+      playerIds,
+      lobby.map((member) => member.rating)
+    );
+
+    tx.set(
+      matchRef(matchId),
+      buildMatchData(
+        lobby.map((member) => ({
+          id: member.doc.id,
+          username: member.entry.username,
+          avatar: member.entry.avatar,
+          rating: member.rating,
+        })),
+        { lobbySize, now, puzzleId, config }
+      )
+    );
+
+    for (const member of lobby) {
+      tx.delete(member.doc.ref);
+    }
+
+    return { kind: "matched", lobby, lobbySize, opponentRatings: [] };
+  });
+
+  if (outcome.kind === "cooldown") {
+    await notifyQueueCooldown(userId, outcome.until);
+  } else if (outcome.kind === "matched") {
+    const ratings = [
+      ...outcome.lobby.map((member) => member.rating),
+      ...outcome.opponentRatings,
+    ];
+    // One event per player so wait times are per queue join
+    await Promise.all(
+      outcome.lobby.map((member) =>
+        recordEvent("match_created", {
+          durationMs: member.waitedMs,
+          sums: {
+            rating_spread: Math.max(...ratings) - Math.min(...ratings),
+            lobby_fill: ratings.length / outcome.lobbySize,
+            bot_matches: outcome.opponentRatings.length > 0 ? 1 : 0,
+          },
+          context: {
+            match_id: matchId,
+            user_id: member.doc.id,
+            players: ratings.length,
+            lobby_size: outcome.lobbySize,
+          },
+        })
+      )
+    );
+  }
+}
+
+interface WaitingUserTask {
+  userId: string;
+}
+
+/**
+ * Seconds after joining at which a user's bot match or short lobby is due,
+ * leaving out fallbacks the queue TTL would cut off.
+ * @param {QueueEntry} entry The queue entry
+ * @param {GameConfig} config The user's config
+ * @return {number[]} The delays, without duplicates
+ */
+function fallbackDelaysSeconds(
+  entry: QueueEntry,
+  config: GameConfig
+): number[] {
+  const delays = new Set<number>();
+  if (config.bot_match_wait_seconds > 0) {
+    delays.add(config.bot_match_wait_seconds);
+  }
+  if (lobbySizeOf(entry) > MIN_LOBBY_SIZE) {
+    delays.add(config.lobby_fill_timeout_seconds);
+  }
+  return [...delays].filter((delay) => delay < config.queue_ttl_seconds);
+}
+
+/**
+ * Enqueues a matchWaitingUser task for each fallback of a user who just
+ * joined, so the bot match or short lobby starts when it is due even though
+ * nothing writes the queue entry again.
+ * @param {string} userId The queued user
+ * @param {QueueEntry} entry The queue entry
+ */
+async function scheduleFallbacks(
+  userId: string,
+  entry: QueueEntry
+): Promise<void> {
+  const config = await getGameConfig(userId);
+  const queue = getFunctions().taskQueue<WaitingUserTask>(WAITING_USER_QUEUE);
+  const joinedAtMs = entry.joined_at.toMillis();
+  await Promise.all(
+    fallbackDelaysSeconds(entry, config).map((delay) =>
+      queue.enqueue(
+        { userId },
+        {
+          scheduleDelaySeconds: Math.max(
+            0,
+            Math.ceil((joinedAtMs + delay * 1000 - Date.now()) / 1000)
+          ),
+        }
+      )
+    )
+  );
 }
 
+/**
+ * Re-runs matchmaking for a waiting user whose bot wait or lobby fill timeout
+ * has passed. Does nothing when the user was matched or left meanwhile.
+ */
+export const matchWaitingUser = onTaskDispatched<WaitingUserTask>(
+  { retryConfig: { maxAttempts: 3, minBackoffSeconds: 5 } },
+  async (request) => {
+    await matchQueuedUser(request.data.userId);
+  }
+);
+
 export const onQueueUpdated = onDocumentWritten(
   "match_queue/{userId}",
   async (event) => {
+    const before = event.data?.before;
     const snap = event.data?.after;
     const userId = event.params.userId;
-    console.log(`User ${userId} joined the queue`);
 
     if (!snap || !snap.exists) {
-      console.log("No document data available");
+      // Left the queue: matched, cancelled or given up after the TTL
+      const left = tryParse(parseQueueEntry, before?.data());
+      if (left) {
+        const config = await getGameConfig(userId);
+        const waitedMs = Date.now() - left.joined_at.toMillis();
+        if (waitedMs >= config.queue_ttl_seconds * 1000) {
+          await recordEvent("queue_expiry", {
+            durationMs: waitedMs,
+            context: { user_id: userId },
+          });
+        }
+      }
       return;
     }
 
+    // Malformed entries are rejected so they don't stall other players
+    let entry: QueueEntry;
     try {
-      const now = admin.firestore.Timestamp.now();
-
-      const cutoff = admin.firestore.Timestamp.fromDate(
-        new Date(now.toDate().getTime() - QUEUE_TTL_SECONDS * 1000)
-      );
-
-      const matchId = db.collection("matches").doc().id;
-      const startAt = admin.firestore.Timestamp.fromDate(
-        new Date(Date.now() + 5000)
-      ); // 5s delay
-
-      // Atomically find partner and create match to prevent race conditions
-      await db.runTransaction(async (tx) => {
-        // Re-check current user's queue doc first
-        const currentQueueDoc = await tx.get(snap.ref);
-        if (!currentQueueDoc.exists) {
-          console.log("Transaction aborted: Current user no longer in queue");
-          return;
-        }
-
-        // Find partner within transaction to avoid race conditions
-        const candidatesSnap = await tx.get(
-          db
-            .collection("match_queue")
-            .where("joined_at", ">", cutoff)
-            .orderBy("joined_at")
-            .limit(2)
-        );
-
-        const availablePartner = candidatesSnap.docs.find(
-          (doc) => doc.id !== userId && doc.exists
-        );
-
-        if (!availablePartner) {
-          console.log(
-            `Transaction aborted: No available partner found for user ${userId}`
-          );
-          return;
-        }
-
-        // Double-check partner still exists in transaction
-        const partnerQueueDoc = await tx.get(availablePartner.ref);
-        if (!partnerQueueDoc.exists) {
-          console.log("Transaction aborted: Partner no longer in queue");
-          return;
-        }
+      entry = parseQueueEntry(snap.data());
+    } catch (error) {
+      if (!(error instanceof SchemaError)) throw error;
+      await quarantine(snap.ref, snap.data(), error, "onQueueUpdated");
+      await snap.ref.delete();
+      return;
+    }
 
-        console.log(
-          `Attempting to match user ${userId} with ${availablePartner.id}`
-        );
-
-        tx.set(db.collection("matches").doc(matchId), {
-          players: [userId, availablePartner.id],
-          start_at: startAt,
-          puzzle_id: generateRandomPuzzleId(),
-          created_at: now,
-          max_duration: 85, // seconds
-          player_states: {
-            [userId]: {
-              username: snap.data()?.username,
-              avatar: snap.data()?.avatar,
-            },
-            [availablePartner.id]: {
-              username: partnerQueueDoc.data()?.username,
-              avatar: partnerQueueDoc.data()?.avatar,
-            },
+    try {
+      if (!before?.exists) {
+        await recordEvent("queue_join", {
+          context: {
+            user_id: userId,
+            lobby_size: lobbySizeOf(entry),
           },
         });
+      }
 
-        tx.delete(snap.ref);
-        tx.delete(availablePartner.ref);
-
-        console.log(
-          `Match created successfully: ${matchId} for users ${userId} and ${availablePartner.id}`
-        );
-      });
+      await matchQueuedUser(userId);
     } catch (error) {
-      console.error(`Matchmaking failed for user ${userId}:`, error);
-      // Optionally: Add retry logic or cleanup failed state
+      logger.error("matchmaking_failed", {
+        user_id: userId,
+        error: String(error),
+      });
+    }
+
+    if (!before?.exists) {
+      try {
+        await scheduleFallbacks(userId, entry);
+      } catch (error) {
+        logger.error("fallback_schedule_failed", {
+          user_id: userId,
+          error: String(error),
+        });
+      }
     }
   }
 );
@@ -0,0 +1,304 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {
+  onDocumentCreated,
+  onDocumentWritten,
+} from "firebase-functions/v2/firestore";
+import { devicesOfUsers } from "./devices";
+import { historyRef } from "./match_history";
+import { findMatch } from "./matches";
+import {
+  anonymousPlayer,
+  localizationData,
+  matchOutcome,
+  renderNotification,
+} from "./notification_templates";
+import { fanOut } from "./notify_pushover";
+import { Match, parseMatch, tryParse } from "./schema";
+import { readSubmissions } from "./submissions";
+
+const db = admin.firestore();
+
+/**
+ * Display name of a player from the match's `player_states`.
+ * @param {Match} match The match
+ * @param {string} playerId The player id
+ * @param {string} locale A supported locale
+ * @return {string} The username, or the localized anonymous name
+ */
+function playerName(match: Match, playerId: string, locale: string): string {
+  return match.player_states[playerId]?.username ?? anonymousPlayer(locale);
+}
+
+/**
+ * Milliseconds until a match's `max_duration` has elapsed, used as the TTL of
+ * pushes that are useless once the match is over.
+ * @param {Match} match The match
+ * @return {number} The remaining time, at least 0
+ */
+function remainingMatchMs(match: Match): number {
+  const endsAt = match.start_at.toMillis() + (match.max_duration ?? 0) * 1000;
+  return Math.max(0, endsAt - Date.now());
+}
+
+/**
+ * Sends a high-priority "match found" push with the start countdown to every
+ * player, so players who backgrounded the app while waiting come back.
+ * Document path: matches/{matchId}
+ */
+export const notifyMatchFound = onDocumentCreated(
+  "matches/{matchId}",
+  async (event) => {
+    const matchId = event.params.matchId;
+    const match = tryParse(parseMatch, event.data?.data());
+    if (!match) return;
+
+    const players = match.players;
+    const startAtMs = match.start_at.toMillis();
+
+    try {
+      const devicesByUser = await devicesOfUsers(players, "match_found");
+
+      await Promise.all(
+        [...devicesByUser].map(async ([playerId, devices]) => {
+          const results = await fanOut(
+            devices,
+            (locale) => {
+              const vars = {
+                opponents: players
+                  .filter((id) => id !== playerId)
+                  .map((id) => playerName(match, id, locale))
+                  .join(", "),
+                seconds: String(
+                  Math.max(0, Math.ceil((startAtMs - Date.now()) / 1000))
+                ),
+              };
+              const notification = renderNotification(
+                "match_found",
+                locale,
+                vars
+              );
+
+              return {
+                notification,
+                data: {
+                  type: "match_found",
+                  matchId,
+                  // Clients count down from this rather than from `seconds`
+                  startAt: String(startAtMs),
+                  locale,
+                  ...localizationData("match_found", vars),
+                  ...notification,
+                },
+                android: {
+                  priority: "high" as const,
+                  ttl: remainingMatchMs(match),
+                },
+                apns: {
+                  headers: {
+                    "apns-priority": "10",
+                  },
+                  payload: {
+                    aps: {
+                      sound: "default",
+                      "interruption-level": "time-sensitive",
+                    },
+                  },
+                },
+              };
+            },
+            "match_found"
+          );
+          logger.info("match_found_push_sent", {
+            match_id: matchId,
+            user_id: playerId,
+            success: results.success,
+            failure: results.failure,
+          });
+        })
+      );
+    } catch (error) {
+      logger.error("match_found_push_failed", {
+        match_id: matchId,
+        error: String(error),
+      });
+    }
+  }
+);
+
+/**
+ * Nudges players who are still solving when an opponent's finish is accepted
+ * by `submitMove`. Players can turn this off with the "opponent_finished"
+ * notification preference.
+ * Document path: match_submissions/{matchId}_{playerId}
+ */
+export const notifyOpponentFinished = onDocumentWritten(
+  "match_submissions/{submissionId}",
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (!after?.finished_at || before?.finished_at) return;
+
+    const matchId: string = after.match_id;
+    const opponentId: string = after.player_id;
+    const match = await findMatch(matchId);
+    // Finalized already, e.g. the last player finished
+    if (!match) return;
+
+    const others = match.players.filter((id) => id !== opponentId);
+    const submissions = await readSubmissions(matchId, others);
+    const stillPlaying = others.filter((id) => {
+      const state = match.player_states[id] ?? {};
+      return (
+        !submissions.get(id)?.finished_at &&
+        !state.quit_at &&
+        !state.forfeited_at
+      );
+    });
+    if (stillPlaying.length === 0) return;
+
+    try {
+      const devicesByUser = await devicesOfUsers(
+        stillPlaying,
+        "opponent_finished"
+      );
+
+      for (const [playerId, devices] of devicesByUser) {
+        const results = await fanOut(
+          devices,
+          (locale) => {
+            const vars = { opponent: playerName(match, opponentId, locale) };
+            const notification = renderNotification(
+              "opponent_finished",
+              locale,
+              vars
+            );
+
+            return {
+              notification,
+              data: {
+                type: "opponent_finished",
+                matchId,
+                opponentId,
+                locale,
+                ...localizationData("opponent_finished", vars),
+                ...notification,
+              },
+              android: {
+                priority: "high" as const,
+                ttl: remainingMatchMs(match),
+              },
+              apns: {
+                headers: {
+                  "apns-priority": "10",
+                },
+                payload: {
+                  aps: {
+                    sound: "default",
+                  },
+                },
+              },
+            };
+          },
+          "opponent_finished"
+        );
+        logger.info("opponent_finished_push_sent", {
+          match_id: matchId,
+          user_id: playerId,
+          success: results.success,
+          failure: results.failure,
+        });
+      }
+    } catch (error) {
+      logger.error("opponent_finished_push_failed", {
+        match_id: matchId,
+        error: String(error),
+      });
+    }
+  }
+);
+
+/**
+ * Sends every player their result, placement and rating change once the match
+ * is finalized, whether by a client delete or the expiry sweeper.
+ * Document path: match_results/{matchId}
+ */
+export const notifyMatchResult = onDocumentCreated(
+  "match_results/{matchId}",
+  async (event) => {
+    const matchId = event.params.matchId;
+    const matchResult = event.data?.data();
+    if (!matchResult) return;
+
+    const players: string[] = matchResult.players ?? [];
+
+    try {
+      const [devicesByUser, historySnaps] = await Promise.all([
+        devicesOfUsers(players, "match_result"),
+        db.getAll(...players.map((id) => historyRef(matchId, id))),
+      ]);
+
+      await Promise.all(
+        historySnaps.map(async (historySnap) => {
+          const history = historySnap.data();
+          const devices = history && devicesByUser.get(history.player_id);
+          if (!history || !devices) return;
+
+          const ratingChange: number = history.rating_change ?? 0;
+          const results = await fanOut(
+            devices,
+            (locale) => {
+              const vars = {
+                outcome: matchOutcome(locale, history.result),
+                placement: String(history.placement),
+                players: String(history.player_count),
+                rating_after: String(history.rating_after),
+                rating_change: `${ratingChange >= 0 ? "+" : ""}${ratingChange}`,
+              };
+              const notification = renderNotification(
+                "match_result",
+                locale,
+                vars
+              );
+
+              return {
+                notification,
+                data: {
+                  type: "match_result",
+                  matchId,
+                  result: history.result,
+                  placement: String(history.placement),
+                  progress: String(history.player_progress ?? 0),
+                  ratingChange: String(ratingChange),
+                  locale,
+                  ...localizationData("match_result", vars),
+                  ...notification,
+                },
+                android: {
+                  priority: "normal" as const,
+                },
+                apns: {
+                  headers: {
+                    "apns-priority": "5",
+                  },
+                },
+              };
+            },
+            "match_result"
+          );
+          logger.info("result_push_sent", {
+            match_id: matchId,
+            user_id: history.player_id,
+            success: results.success,
+            failure: results.failure,
+          });
+        })
+      );
+    } catch (error) {
+      logger.error("result_push_failed", {
+        match_id: matchId,
+        error: String(error),
+      });
+    }
+  }
+);
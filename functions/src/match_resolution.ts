@@ -0,0 +1,163 @@
+import { MatchResult } from "./player_stats";
+
+// Pure match outcome logic, free of Firestore access so it can be unit
+// tested. Times are epoch milliseconds.
+
+export interface PlayerResult {
+  playerId: string;
+  // Trusted finish time, null if the player didn't finish
+  finishedAtMs: number | null;
+  progress: number;
+  // Quit or forfeited after a disconnect
+  quitAtMs: number | null;
+}
+
+/**
+ * Whether a player quit before the match started. Such players are dropped
+ * from the match instead of losing it.
+ * @param {number | null} quitAtMs When the player quit, if they did
+ * @param {number | null} startAtMs When the match started
+ * @return {boolean} Whether the player dodged the match
+ */
+export function quitBeforeStart(
+  quitAtMs: number | null | undefined,
+  startAtMs: number | null | undefined
+): boolean {
+  if (quitAtMs === null || quitAtMs === undefined) return false;
+  if (startAtMs === null || startAtMs === undefined) return false;
+  return quitAtMs < startAtMs;
+}
+
+/**
+ * Orders two results: players who stayed rank ahead of quitters, finished
+ * players by finish time, then unfinished players by progress. Quitters share
+ * last place. Returns 0 for results that share a placement.
+ * @param {PlayerResult} a The first result
+ * @param {PlayerResult} b The second result
+ * @return {number} Negative if `a` placed better, positive if `b` did
+ */
+export function compareResults(a: PlayerResult, b: PlayerResult): number {
+  if (a.quitAtMs !== null && b.quitAtMs !== null) return 0;
+  if (a.quitAtMs !== null) return 1;
+  if (b.quitAtMs !== null) return -1;
+
+  // If both players finished, compare finish times
+  if (a.finishedAtMs !== null && b.finishedAtMs !== null) {
+    return a.finishedAtMs - b.finishedAtMs;
+  }
+  // If only one player finished, they place higher
+  if (a.finishedAtMs !== null) return -1;
+  if (b.finishedAtMs !== null) return 1;
+
+  // If neither finished, compare progress
+  return b.progress - a.progress;
+}
+
+/**
+ * Placements (1 = best) for every player. Tied players share a placement and
+ * the following placements are skipped, e.g. 1, 1, 3.
+ * @param {PlayerResult[]} results The player results
+ * @return {Map<string, number>} Placement by player id
+ */
+export function resolvePlacements(
+  results: PlayerResult[]
+): Map<string, number> {
+  const sorted = [...results].sort(compareResults);
+  const placements = new Map<string, number>();
+  sorted.forEach((result, index) => {
+    const previous = sorted[index - 1];
+    placements.set(
+      result.playerId,
+      previous && compareResults(previous, result) === 0
+        ? (placements.get(previous.playerId) as number)
+        : index + 1
+    );
+  });
+  return placements;
+}
+
+/**
+ * Placements of a match with an already decided winner: the winner first,
+ * everyone else second.
+ * @param {string[]} playerIds The players
+ * @param {string} winner The decided winner
+ * @return {Map<string, number>} Placement by player id
+ */
+export function decidedPlacements(
+  playerIds: string[],
+  winner: string
+): Map<string, number> {
+  return new Map(
+    playerIds.map((playerId) => [playerId, playerId === winner ? 1 : 2])
+  );
+}
+
+/**
+ * The sole player in first place.
+ * @param {Map<string, number>} placements Placement by player id
+ * @return {string | null} The winner, null for a draw
+ */
+export function winnerOf(placements: Map<string, number>): string | null {
+  const leaders = [...placements].filter(([, placement]) => placement === 1);
+  return leaders.length === 1 ? leaders[0][0] : null;
+}
+
+/**
+ * Outcome recorded in a player's history and stats.
+ * @param {number} placement The player's placement
+ * @param {Map<string, number>} placements Placement by player id
+ * @return {MatchResult} Win, loss or draw
+ */
+export function resultOf(
+  placement: number,
+  placements: Map<string, number>
+): MatchResult {
+  if (placement !== 1) return "loss";
+  return winnerOf(placements) ? "win" : "draw";
+}
+
+/**
+ * Elo score of a player against one opponent.
+ * @param {number} placement The player's placement
+ * @param {number} opponentPlacement The opponent's placement
+ * @return {number} 1 for placing better, 0.5 for a tie, 0 otherwise
+ */
+export function scoreAgainst(
+  placement: number,
+  opponentPlacement: number
+): number {
+  if (placement < opponentPlacement) return 1;
+  return placement === opponentPlacement ? 0.5 : 0;
+}
+
+/**
+ * When a match was completed: the earliest trusted finish of any player, or
+ * the fallback when nobody finished.
+ * @param {PlayerResult[]} results The player results
+ * @param {number} fallbackMs Completion time when nobody finished
+ * @return {number} The completion time
+ */
+export function completedAtMs(
+  results: PlayerResult[],
+  fallbackMs: number
+): number {
+  const finishes = results
+    .map((result) => result.finishedAtMs)
+    .filter((finishedAtMs): finishedAtMs is number => finishedAtMs !== null);
+  return finishes.length > 0 ? Math.min(...finishes) : fallbackMs;
+}
+
+/**
+ * Duration of a match, 0 when the start is unknown or after the completion,
+ * e.g. a finish stamped before a delayed start.
+ * @param {number} completedMs When the match was completed
+ * @param {number | null} startAtMs When the match started
+ * @return {number} The duration
+ */
+export function matchDurationMs(
+  completedMs: number,
+  startAtMs: number | null | undefined
+): number {
+  if (startAtMs === null || startAtMs === undefined) return 0;
+  return Math.max(0, completedMs - startAtMs);
+}
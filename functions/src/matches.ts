@@ -0,0 +1,67 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { HttpsError } from "firebase-functions/v2/https";
+import { Match, SchemaError, matchConverter } from "./schema";
+
+const db = admin.firestore();
+
+/**
+ * Reference to a match, validated on read and stamped with the schema
+ * version on write.
+ * Document path: matches/{matchId}
+ * @param {string} matchId The match id
+ * @return {admin.firestore.DocumentReference<Match>} The match reference
+ */
+export function matchRef(
+  matchId: string
+): admin.firestore.DocumentReference<Match> {
+  return db.collection("matches").doc(matchId).withConverter(matchConverter);
+}
+
+/**
+ * The match of a snapshot read for a player's request. A missing match fails
+ * the request as not found, a malformed one as a failed precondition.
+ * @param {admin.firestore.DocumentSnapshot<Match>} snap The match snapshot
+ * @return {Match} The match
+ */
+export function requireMatch(
+  snap: admin.firestore.DocumentSnapshot<Match>
+): Match {
+  let match: Match | undefined;
+  try {
+    match = snap.data();
+  } catch (error) {
+    if (!(error instanceof SchemaError)) throw error;
+    logger.error("match_invalid", {
+      match_id: snap.id,
+      field: error.field,
+      error: error.message,
+    });
+    throw new HttpsError("failed-precondition", `Match ${snap.id} is invalid`);
+  }
+  if (!match) {
+    throw new HttpsError("not-found", `Match ${snap.id} not found`);
+  }
+  return match;
+}
+
+/**
+ * Reads a match for background work, which skips a malformed match rather
+ * than failing on it.
+ * @param {string} matchId The match id
+ * @return {Promise<Match | null>} The match, null when missing or malformed
+ */
+export async function findMatch(matchId: string): Promise<Match | null> {
+  const snap = await matchRef(matchId).get();
+  try {
+    return snap.data() ?? null;
+  } catch (error) {
+    if (!(error instanceof SchemaError)) throw error;
+    logger.warn("match_invalid", {
+      match_id: matchId,
+      field: error.field,
+      error: error.message,
+    });
+    return null;
+  }
+}
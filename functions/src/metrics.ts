@@ -0,0 +1,263 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+
+const db = admin.firestore();
+
+// Writes for an hour are spread over shards to stay below the per-document
+// write rate
+const METRIC_SHARDS = 10;
+// Upper bounds of the duration histogram buckets
+const DURATION_BUCKETS_MS = [
+  1000, 2000, 5000, 10000, 20000, 30000, 45000, 60000, 120000, 300000,
+];
+const MAX_DASHBOARD_HOURS = 7 * 24;
+const GET_ALL_CHUNK_SIZE = 100;
+
+export type MetricEvent =
+  | "queue_join"
+  | "queue_expiry"
+  | "match_created"
+  | "notification_sent"
+  | "match_completed";
+
+export interface MetricData {
+  // Added to the event's duration histogram
+  durationMs?: number;
+  // Summed per hour, e.g. rating spread of created matches
+  sums?: Record<string, number>;
+  // Logged with the event only
+  context?: Record<string, unknown>;
+}
+
+/**
+ * Hour bucket of a time (UTC), e.g. 2026-10-19T03.
+ * @param {Date} date The time
+ * @return {string} The hour key
+ */
+function hourKey(date: Date): string {
+  return date.toISOString().slice(0, 13);
+}
+
+/**
+ * Histogram bucket of a duration.
+ * @param {number} durationMs The duration
+ * @return {string} The bucket key, e.g. le_5000 or inf
+ */
+function durationBucket(durationMs: number): string {
+  const bound = DURATION_BUCKETS_MS.find((b) => durationMs <= b);
+  return bound === undefined ? "inf" : `le_${bound}`;
+}
+
+/**
+ * Shard of the hourly metrics document.
+ * Document path: queue_metrics/{hour}/shards/{shard}
+ * @param {string} hour The hour key
+ * @param {number} shard The shard number
+ * @return {admin.firestore.DocumentReference} The shard reference
+ */
+function metricShardRef(
+  hour: string,
+  shard: number
+): admin.firestore.DocumentReference {
+  return db
+    .collection("queue_metrics")
+    .doc(hour)
+    .collection("shards")
+    .doc(String(shard));
+}
+
+/**
+ * Logs a structured event and adds it to the hourly metrics. Failing to
+ * record a metric never fails the caller.
+ * @param {MetricEvent} event The event type
+ * @param {MetricData} data Duration, summed values and log context
+ */
+export async function recordEvent(
+  event: MetricEvent,
+  data: MetricData = {}
+): Promise<void> {
+  const { durationMs, sums = {}, context = {} } = data;
+  logger.info(event, {
+    event,
+    ...(durationMs !== undefined && { duration_ms: durationMs }),
+    ...sums,
+    ...context,
+  });
+
+  const increment = admin.firestore.FieldValue.increment;
+  const now = new Date();
+  const hour = hourKey(now);
+  try {
+    await metricShardRef(hour, Math.floor(Math.random() * METRIC_SHARDS)).set(
+      {
+        hour,
+        [event]: {
+          count: increment(1),
+          ...(durationMs !== undefined && {
+            duration_ms_sum: increment(durationMs),
+            duration_buckets: { [durationBucket(durationMs)]: increment(1) },
+          }),
+          ...Object.fromEntries(
+            Object.entries(sums).map(([key, value]) => [key, increment(value)])
+          ),
+        },
+        updated_at: admin.firestore.Timestamp.fromDate(now),
+      },
+      { merge: true }
+    );
+  } catch (error) {
+    logger.warn("metric_write_failed", { event, hour, error: String(error) });
+  }
+}
+
+/**
+ * Shard references of the hourly metrics of the last hours, oldest first.
+ * @param {number} hours Number of hours, including the current one
+ * @param {number} now The current time in ms
+ * @return {object} The hour keys and the shard references of all of them
+ */
+function recentShardRefs(hours: number, now: number) {
+  const hourKeys = Array.from({ length: hours }, (_, index) =>
+    hourKey(new Date(now - (hours - 1 - index) * 60 * 60 * 1000))
+  );
+  const refs = hourKeys.flatMap((hour) =>
+    Array.from({ length: METRIC_SHARDS }, (_, shard) =>
+      metricShardRef(hour, shard)
+    )
+  );
+  return { hourKeys, refs };
+}
+
+/**
+ * Adds up numeric fields of two metric objects, recursing into maps.
+ * @param {admin.firestore.DocumentData} target Totals, updated in place
+ * @param {admin.firestore.DocumentData} source Values to add
+ */
+function addInto(
+  target: admin.firestore.DocumentData,
+  source: admin.firestore.DocumentData
+): void {
+  for (const [key, value] of Object.entries(source)) {
+    if (typeof value === "number") {
+      target[key] = (target[key] ?? 0) + value;
+    } else if (value && typeof value === "object" && !("toMillis" in value)) {
+      target[key] = target[key] ?? {};
+      addInto(target[key], value);
+    }
+  }
+}
+
+/**
+ * Estimated percentile of a duration histogram: the upper bound of the bucket
+ * the percentile falls into.
+ * @param {Record<string, number>} buckets Counts by bucket key
+ * @param {number} percentile The percentile, 0 to 1
+ * @return {number | null} Duration in ms, null without data; Infinity for
+ *   the open-ended bucket
+ */
+function bucketPercentile(
+  buckets: Record<string, number> | undefined,
+  percentile: number
+): number | null {
+  if (!buckets) return null;
+  const total = Object.values(buckets).reduce((a, b) => a + b, 0);
+  if (total === 0) return null;
+
+  let seen = 0;
+  for (const bound of DURATION_BUCKETS_MS) {
+    seen += buckets[`le_${bound}`] ?? 0;
+    if (seen >= total * percentile) return bound;
+  }
+  return Infinity;
+}
+
+/**
+ * Summary of one event type in one hour.
+ * @param {admin.firestore.DocumentData | undefined} metrics Summed shards
+ * @return {object} Count, average and percentile durations, summed values
+ */
+function summarize(metrics: admin.firestore.DocumentData | undefined) {
+  const {
+    count = 0,
+    duration_ms_sum: durationSum,
+    duration_buckets: buckets,
+    ...sums
+  } = metrics ?? {};
+  return {
+    count,
+    avgDurationMs:
+      durationSum !== undefined && count > 0
+        ? Math.round(durationSum / count)
+        : null,
+    p50DurationMs: bucketPercentile(buckets, 0.5),
+    p90DurationMs: bucketPercentile(buckets, 0.9),
+    sums,
+  };
+}
+
+/**
+ * Average duration of an event over the current and the previous hour.
+ * @param {MetricEvent} event The event type
+ * @return {Promise<number | null>} Duration in ms, null without data
+ */
+export async function recentAverageDurationMs(
+  event: MetricEvent
+): Promise<number | null> {
+  const { refs } = recentShardRefs(2, Date.now());
+  const totals: admin.firestore.DocumentData = {};
+  for (const snap of await db.getAll(...refs)) {
+    addInto(totals, snap.data()?.[event] ?? {});
+  }
+  return summarize(totals).avgDurationMs;
+}
+
+/**
+ * Hourly queue metrics for a dashboard: counts, wait-time percentiles, match
+ * quality and the share of queue joins that expired unmatched.
+ * Restricted to users with the `admin` custom claim.
+ */
+export const getQueueMetrics = onCall(async (request) => {
+  if (request.auth?.token.admin !== true) {
+    throw new HttpsError("permission-denied", "Admin only");
+  }
+
+  const hours = request.data?.hours ?? 24;
+  if (!Number.isInteger(hours) || hours < 1 || hours > MAX_DASHBOARD_HOURS) {
+    throw new HttpsError(
+      "invalid-argument",
+      `hours must be between 1 and ${MAX_DASHBOARD_HOURS}`
+    );
+  }
+
+  const { hourKeys, refs } = recentShardRefs(hours, Date.now());
+
+  const totals = new Map<string, admin.firestore.DocumentData>();
+  for (let i = 0; i < refs.length; i += GET_ALL_CHUNK_SIZE) {
+    const snaps = await db.getAll(...refs.slice(i, i + GET_ALL_CHUNK_SIZE));
+    for (const snap of snaps) {
+      const data = snap.data();
+      if (!data) continue;
+      const hourTotals = totals.get(data.hour) ?? {};
+      addInto(hourTotals, data);
+      totals.set(data.hour, hourTotals);
+    }
+  }
+
+  return {
+    hours: hourKeys.map((hour) => {
+      const metrics = totals.get(hour) ?? {};
+      const joins = metrics.queue_join?.count ?? 0;
+      const expiries = metrics.queue_expiry?.count ?? 0;
+      return {
+        hour,
+        queueJoin: summarize(metrics.queue_join),
+        queueExpiry: summarize(metrics.queue_expiry),
+        matchCreated: summarize(metrics.match_created),
+        notificationSent: summarize(metrics.notification_sent),
+        matchCompleted: summarize(metrics.match_completed),
+        expiryRate: joins > 0 ? expiries / joins : null,
+      };
+    }),
+  };
+});
@@ -0,0 +1,503 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {
+  CallableRequest,
+  HttpsError,
+  onCall,
+} from "firebase-functions/v2/https";
+import { isBotId } from "./bots";
+import { historyRef } from "./match_history";
+import {
+  decidedPlacements,
+  resultOf,
+  scoreAgainst,
+  winnerOf,
+} from "./match_resolution";
+import {
+  correctBotOutcome,
+  correctLeaderboards,
+  correctOutcome,
+  readStats,
+  statsRef,
+} from "./player_stats";
+import { computeRatingChange, ratingRef, readRating } from "./ratings";
+import { MatchHistoryEntry, parseHistoryEntry, SchemaError } from "./schema";
+import { correctSeasonStanding, seasonAt } from "./seasons";
+
+const db = admin.firestore();
+
+const MAX_REASON_LENGTH = 500;
+const MAX_SUSPENSION_HOURS = 365 * 24;
+const GET_ALL_CHUNK_SIZE = 100;
+
+export type RestrictionStatus = "banned" | "suspended";
+export type AdminAction =
+  | "ban"
+  | "suspend"
+  | "unban"
+  | "override_result"
+  | "void_result";
+
+export interface Restriction {
+  status: RestrictionStatus;
+  reason: string;
+  // End of a suspension, null for a ban
+  until: admin.firestore.Timestamp | null;
+}
+
+/**
+ * Moderation record of a user, written by admins only.
+ * Document path: user_moderation/{userId}
+ * @param {string} userId The user id
+ * @return {admin.firestore.DocumentReference} The record reference
+ */
+export function moderationRef(
+  userId: string
+): admin.firestore.DocumentReference {
+  return db.collection("user_moderation").doc(userId);
+}
+
+/**
+ * The ban or suspension a user is currently under.
+ * @param {admin.firestore.DocumentSnapshot} snap The moderation record
+ * @param {admin.firestore.Timestamp} now The current time
+ * @return {Restriction | null} The restriction, null if the user is in good
+ *   standing or the suspension ended
+ */
+export function activeRestriction(
+  snap: admin.firestore.DocumentSnapshot | undefined,
+  now: admin.firestore.Timestamp
+): Restriction | null {
+  const data = snap?.data();
+  if (data?.status !== "banned" && data?.status !== "suspended") return null;
+  const until: admin.firestore.Timestamp | null = data.until ?? null;
+  if (until && until.toMillis() <= now.toMillis()) return null;
+  return { status: data.status, reason: data.reason ?? "", until };
+}
+
+/**
+ * Users among the given ones that are banned or suspended.
+ * @param {string[]} userIds The user ids
+ * @return {Promise<Set<string>>} The restricted user ids
+ */
+export async function restrictedUserIds(
+  userIds: string[]
+): Promise<Set<string>> {
+  const now = admin.firestore.Timestamp.now();
+  const unique = [...new Set(userIds)];
+  const restricted = new Set<string>();
+  for (let i = 0; i < unique.length; i += GET_ALL_CHUNK_SIZE) {
+    const chunk = unique.slice(i, i + GET_ALL_CHUNK_SIZE);
+    const snaps = await db.getAll(...chunk.map(moderationRef));
+    snaps.forEach((snap, index) => {
+      if (activeRestriction(snap, now)) restricted.add(chunk[index]);
+    });
+  }
+  return restricted;
+}
+
+/**
+ * Adds an entry to the admin audit log within a transaction.
+ * Document path: admin_audit_log/{entryId}
+ * @param {admin.firestore.Transaction} tx The transaction
+ * @param {object} entry The action, its actor, target and details
+ */
+function writeAudit(
+  tx: admin.firestore.Transaction,
+  entry: {
+    action: AdminAction;
+    actorId: string;
+    reason: string;
+    userId?: string;
+    matchId?: string;
+    details?: admin.firestore.DocumentData;
+  }
+): void {
+  tx.create(db.collection("admin_audit_log").doc(), {
+    action: entry.action,
+    actor_id: entry.actorId,
+    reason: entry.reason,
+    user_id: entry.userId ?? null,
+    match_id: entry.matchId ?? null,
+    details: entry.details ?? {},
+    at: admin.firestore.Timestamp.now(),
+  });
+}
+
+/**
+ * Checks the `admin` custom claim and the reason every admin action needs.
+ * @param {CallableRequest} request The callable request
+ * @return {object} The admin's user id and the reason
+ */
+function requireAdmin(request: CallableRequest) {
+  if (request.auth?.token.admin !== true) {
+    throw new HttpsError("permission-denied", "Admin only");
+  }
+  const reason = request.data?.reason;
+  if (
+    typeof reason !== "string" ||
+    reason.trim().length === 0 ||
+    reason.length > MAX_REASON_LENGTH
+  ) {
+    throw new HttpsError(
+      "invalid-argument",
+      `reason must be 1 to ${MAX_REASON_LENGTH} characters`
+    );
+  }
+  return { actorId: request.auth.uid, reason: reason.trim() };
+}
+
+/**
+ * Reads a required id from callable data.
+ * @param {unknown} value The value from the request data
+ * @param {string} field The field name used in the error
+ * @return {string} The id
+ */
+function requireId(value: unknown, field: string): string {
+  if (typeof value !== "string" || value.length === 0) {
+    throw new HttpsError("invalid-argument", `${field} is required`);
+  }
+  return value;
+}
+
+/**
+ * Bans a user, or suspends them when `durationHours` is given. The user's
+ * queue entry is removed, matchmaking skips them and they receive no pushes
+ * until lifted. Restricted to users with the `admin` custom claim.
+ * Request: { userId: string, reason: string, durationHours?: number }
+ */
+export const banUser = onCall(async (request) => {
+  const { actorId, reason } = requireAdmin(request);
+  const userId = requireId(request.data?.userId, "userId");
+
+  const durationHours = request.data?.durationHours;
+  if (
+    durationHours !== undefined &&
+    (typeof durationHours !== "number" ||
+      !(durationHours > 0) ||
+      durationHours > MAX_SUSPENSION_HOURS)
+  ) {
+    throw new HttpsError(
+      "invalid-argument",
+      `durationHours must be between 0 and ${MAX_SUSPENSION_HOURS}`
+    );
+  }
+
+  const now = admin.firestore.Timestamp.now();
+  const status: RestrictionStatus =
+    durationHours === undefined ? "banned" : "suspended";
+  const until =
+    durationHours === undefined
+      ? null
+      : admin.firestore.Timestamp.fromMillis(
+          now.toMillis() + durationHours * 60 * 60 * 1000
+        );
+
+  await db.runTransaction(async (tx) => {
+    tx.set(moderationRef(userId), {
+      status,
+      reason,
+      until,
+      updated_by: actorId,
+      updated_at: now,
+    });
+    // The delete trigger clears the queue-join alert others received
+    tx.delete(db.collection("match_queue").doc(userId));
+    writeAudit(tx, {
+      action: status === "banned" ? "ban" : "suspend",
+      actorId,
+      reason,
+      userId,
+      details: { until },
+    });
+  });
+
+  logger.info("user_restricted", {
+    user_id: userId,
+    status,
+    until: until?.toMillis() ?? null,
+    actor_id: actorId,
+  });
+  return { userId, status, until: until?.toMillis() ?? null };
+});
+
+/**
+ * Lifts a ban or suspension. Restricted to users with the `admin` custom
+ * claim.
+ * Request: { userId: string, reason: string }
+ */
+export const unbanUser = onCall(async (request) => {
+  const { actorId, reason } = requireAdmin(request);
+  const userId = requireId(request.data?.userId, "userId");
+
+  await db.runTransaction(async (tx) => {
+    const record = await tx.get(moderationRef(userId));
+    if (!activeRestriction(record, admin.firestore.Timestamp.now())) {
+      throw new HttpsError("failed-precondition", "User is not restricted");
+    }
+    tx.set(moderationRef(userId), {
+      status: "active",
+      reason,
+      until: null,
+      updated_by: actorId,
+      updated_at: admin.firestore.Timestamp.now(),
+    });
+    writeAudit(tx, {
+      action: "unban",
+      actorId,
+      reason,
+      userId,
+      details: { previous_status: record.data()?.status },
+    });
+  });
+
+  logger.info("user_unrestricted", { user_id: userId, actor_id: actorId });
+  return { userId, status: "active" };
+});
+
+/**
+ * Rewrites the result of a finalized match: every player's history entry,
+ * rating, stats, leaderboard entries and open-season standing move from the
+ * recorded result to the corrected one. Ratings are recomputed from the
+ * ratings before the match; streaks are left alone.
+ * @param {string} matchId The match id
+ * @param {object} correction The new winner (null for a draw), or void
+ * @param {string} actorId The admin
+ * @param {string} reason Why the result was corrected
+ * @return {Promise<object>} The corrected winner and placements
+ */
+async function correctMatchResult(
+  matchId: string,
+  correction: { voided: true } | { voided: false; winnerId: string | null },
+  actorId: string,
+  reason: string
+) {
+  const resultRef = db.collection("match_results").doc(matchId);
+
+  return db.runTransaction(async (tx) => {
+    const resultDoc = await tx.get(resultRef);
+    if (!resultDoc.exists) {
+      throw new HttpsError("not-found", `Match ${matchId} has no result`);
+    }
+    const recorded = resultDoc.data() ?? {};
+    if (recorded.voided) {
+      throw new HttpsError("failed-precondition", "Match result is voided");
+    }
+
+    const players: string[] = recorded.players ?? [];
+    if (
+      !correction.voided &&
+      correction.winnerId !== null &&
+      !players.includes(correction.winnerId)
+    ) {
+      throw new HttpsError("invalid-argument", "winnerId is not a player");
+    }
+    const humans = players.filter((playerId) => !isBotId(playerId));
+    if (humans.length === 0) {
+      throw new HttpsError("failed-precondition", "Match has no players");
+    }
+
+    const historySnaps = await tx.getAll(
+      ...humans.map((playerId) => historyRef(matchId, playerId))
+    );
+    if (historySnaps.some((snap) => !snap.exists)) {
+      throw new HttpsError(
+        "failed-precondition",
+        "Match history is incomplete, correct it by hand"
+      );
+    }
+    const ratingSnaps = await tx.getAll(...humans.map(ratingRef));
+    const statsSnaps = await tx.getAll(...humans.map(statsRef));
+
+    const entries = new Map<string, MatchHistoryEntry>();
+    humans.forEach((playerId, index) => {
+      try {
+        entries.set(playerId, parseHistoryEntry(historySnaps[index].data()));
+      } catch (error) {
+        if (!(error instanceof SchemaError)) throw error;
+        throw new HttpsError(
+          "failed-precondition",
+          `History of ${playerId} is malformed (${error.message})`
+        );
+      }
+    });
+    const placements: Map<string, number> | null = correction.voided
+      ? null
+      : correction.winnerId === null
+      ? new Map(players.map((playerId) => [playerId, 1]))
+      : decidedPlacements(players, correction.winnerId);
+
+    const completedAt: admin.firestore.Timestamp = recorded.completed_at;
+    const openSeason = await seasonAt(completedAt);
+    const now = admin.firestore.Timestamp.now();
+
+    humans.forEach((playerId, index) => {
+      const entry = entries.get(playerId) as MatchHistoryEntry;
+      const before = entry.result;
+      const placement = placements?.get(playerId) ?? entry.placement;
+      const after = placements ? resultOf(placement, placements) : null;
+      const current = readRating(ratingSnaps[index]);
+
+      let ratingChange = 0;
+      if (placements && !entry.bot_match) {
+        ratingChange = computeRatingChange(
+          {
+            rating: entry.rating_before,
+            games_played: Math.max(0, current.games_played - 1),
+          },
+          humans
+            .filter((opponentId) => opponentId !== playerId)
+            .map((opponentId) => ({
+              rating: entries.get(opponentId)?.rating_before as number,
+              score: scoreAgainst(
+                placement,
+                placements.get(opponentId) as number
+              ),
+            }))
+        );
+      }
+
+      tx.update(historyRef(matchId, playerId), {
+        result: after ?? before,
+        placement,
+        opponents: entry.opponents.map((opponent) => ({
+          ...opponent,
+          placement: placements?.get(opponent.player_id) ?? opponent.placement,
+        })),
+        rating_change: ratingChange,
+        rating_after: entry.rating_before + ratingChange,
+        voided: correction.voided,
+        moderation: {
+          action: correction.voided ? "void_result" : "override_result",
+          previous_result: before,
+          previous_rating_change: entry.rating_change ?? 0,
+          reason,
+          by: actorId,
+          at: now,
+        },
+      });
+
+      const stats = readStats(statsSnaps[index]);
+      if (entry.bot_match) {
+        tx.set(statsRef(playerId), {
+          ...correctBotOutcome(stats, before, after),
+          updated_at: now,
+        });
+        return;
+      }
+
+      const rating = current.rating + ratingChange - (entry.rating_change ?? 0);
+      tx.set(ratingRef(playerId), {
+        rating,
+        games_played: current.games_played - (after === null ? 1 : 0),
+        updated_at: now,
+      });
+
+      // History keeps the duration rather than start_at
+      const finishedAt = entry.player_finished_at;
+      const startAtMs = completedAt.toMillis() - entry.match_duration;
+      tx.set(statsRef(playerId), {
+        ...correctOutcome(stats, {
+          before,
+          after,
+          puzzleId: entry.puzzle_id,
+          matchDuration: entry.match_duration,
+          finishMs: finishedAt
+            ? Math.max(0, finishedAt.toMillis() - startAtMs)
+            : null,
+        }),
+        updated_at: now,
+      });
+
+      correctLeaderboards(tx, playerId, before, after, completedAt);
+      // Standings of archived seasons are frozen
+      if (entry.season_id && entry.season_id === openSeason?.id) {
+        correctSeasonStanding(
+          tx,
+          entry.season_id,
+          playerId,
+          before,
+          after,
+          rating
+        );
+      }
+    });
+
+    const winner = placements ? winnerOf(placements) : null;
+    tx.update(resultRef, {
+      winner,
+      placements: placements
+        ? Object.fromEntries(placements)
+        : recorded.placements,
+      voided: correction.voided,
+      moderated_by: actorId,
+      moderated_at: now,
+    });
+    writeAudit(tx, {
+      action: correction.voided ? "void_result" : "override_result",
+      actorId,
+      reason,
+      matchId,
+      details: {
+        previous_winner: recorded.winner ?? null,
+        previous_placements: recorded.placements ?? {},
+        winner,
+      },
+    });
+
+    return {
+      matchId,
+      voided: correction.voided,
+      winner,
+      placements: placements ? Object.fromEntries(placements) : null,
+    };
+  });
+}
+
+/**
+ * Overrides the result of a finalized match with a new winner, or a draw
+ * when `winnerId` is null, e.g. after a cheating report. Restricted to users
+ * with the `admin` custom claim.
+ * Request: { matchId: string, winnerId: string | null, reason: string }
+ */
+export const overrideMatchResult = onCall(async (request) => {
+  const { actorId, reason } = requireAdmin(request);
+  const matchId = requireId(request.data?.matchId, "matchId");
+  const winnerId =
+    request.data?.winnerId === null
+      ? null
+      : requireId(request.data?.winnerId, "winnerId");
+
+  const result = await correctMatchResult(
+    matchId,
+    { voided: false, winnerId },
+    actorId,
+    reason
+  );
+  logger.info("match_result_overridden", {
+    match_id: matchId,
+    winner: result.winner,
+    actor_id: actorId,
+  });
+  return result;
+});
+
+/**
+ * Voids the result of a finalized match: it no longer counts towards any
+ * rating, stat, leaderboard or standing, and its history entries are marked
+ * `voided`. Restricted to users with the `admin` custom claim.
+ * Request: { matchId: string, reason: string }
+ */
+export const voidMatchResult = onCall(async (request) => {
+  const { actorId, reason } = requireAdmin(request);
+  const matchId = requireId(request.data?.matchId, "matchId");
+
+  const result = await correctMatchResult(
+    matchId,
+    { voided: true },
+    actorId,
+    reason
+  );
+  logger.info("match_result_voided", { match_id: matchId, actor_id: actorId });
+  return result;
+});
@@ -0,0 +1,187 @@
+import * as admin from "firebase-admin";
+import { GameConfig } from "./config";
+import { ratingRef, readRating } from "./ratings";
+
+const db = admin.firestore();
+
+const MAX_AUDIENCE_CANDIDATES = 2000; // Most recently seen clients considered
+const GET_ALL_CHUNK_SIZE = 100;
+
+/**
+ * Local hour of a client, or null when its UTC offset is unknown.
+ * @param {admin.firestore.DocumentData} client The client document data
+ * @param {Date} now The current time
+ * @return {number | null} The local hour (0-23)
+ */
+function localHour(
+  client: admin.firestore.DocumentData,
+  now: Date
+): number | null {
+  if (typeof client.utc_offset_minutes !== "number") return null;
+  const minutes =
+    now.getUTCHours() * 60 + now.getUTCMinutes() + client.utc_offset_minutes;
+  return Math.floor((((minutes % 1440) + 1440) % 1440) / 60);
+}
+
+/**
+ * Whether a client is within its quiet hours. Clients may set their own
+ * `quiet_hours_start`/`quiet_hours_end`; the range may wrap midnight.
+ * @param {admin.firestore.DocumentData} client The client document data
+ * @param {Date} now The current time
+ * @param {GameConfig} config Default quiet hours
+ * @return {boolean} Whether notifications should be held back
+ */
+export function inQuietHours(
+  client: admin.firestore.DocumentData,
+  now: Date,
+  config: GameConfig
+): boolean {
+  const hour = localHour(client, now);
+  if (hour === null) return false;
+
+  const start = Number.isInteger(client.quiet_hours_start)
+    ? client.quiet_hours_start
+    : config.quiet_hours_start;
+  const end = Number.isInteger(client.quiet_hours_end)
+    ? client.quiet_hours_end
+    : config.quiet_hours_end;
+
+  if (start === end) return false;
+  return start < end
+    ? hour >= start && hour < end
+    : hour >= start || hour < end;
+}
+
+/**
+ * Daily notification budget document of a user (UTC day).
+ * Document path: notification_budgets/{userId}_{yyyy-mm-dd}
+ * @param {string} userId The user id
+ * @param {Date} now The current time
+ * @return {admin.firestore.DocumentReference} The budget document reference
+ */
+function budgetRef(
+  userId: string,
+  now: Date
+): admin.firestore.DocumentReference {
+  const day = now.toISOString().slice(0, 10);
+  return db.collection("notification_budgets").doc(`${userId}_${day}`);
+}
+
+/**
+ * Reads documents in chunks to stay within request limits.
+ * @param {admin.firestore.DocumentReference[]} refs The documents to read
+ * @return {Promise<admin.firestore.DocumentSnapshot[]>} The snapshots
+ */
+async function getAllChunked(
+  refs: admin.firestore.DocumentReference[]
+): Promise<admin.firestore.DocumentSnapshot[]> {
+  const snapshots: admin.firestore.DocumentSnapshot[] = [];
+  for (let i = 0; i < refs.length; i += GET_ALL_CHUNK_SIZE) {
+    const chunk = refs.slice(i, i + GET_ALL_CHUNK_SIZE);
+    if (chunk.length > 0) {
+      snapshots.push(...(await db.getAll(...chunk)));
+    }
+  }
+  return snapshots;
+}
+
+/**
+ * Clients that should get a queue-join alert: recently active, not the
+ * joiner, within the joiner's rating band and timezone range, outside quiet
+ * hours and with notification budget left for the day.
+ * @param {string} joinerId The user who joined the queue
+ * @param {GameConfig} config Targeting and throttling settings
+ * @param {Date} now The current time
+ * @return {Promise<admin.firestore.QueryDocumentSnapshot[]>} Client documents
+ */
+export async function selectQueueJoinAudience(
+  joinerId: string,
+  config: GameConfig,
+  now: Date
+): Promise<admin.firestore.QueryDocumentSnapshot[]> {
+  const activeCutoff = admin.firestore.Timestamp.fromMillis(
+    now.getTime() - config.queue_join_active_days * 24 * 60 * 60 * 1000
+  );
+
+  const [joinerRatingSnap, joinerClients, clientsSnapshot] = await Promise.all([
+    ratingRef(joinerId).get(),
+    db.collection("clients").where("user_id", "==", joinerId).limit(5).get(),
+    db
+      .collection("clients")
+      .where("last_seen_at", ">=", activeCutoff)
+      .orderBy("last_seen_at", "desc")
+      .limit(MAX_AUDIENCE_CANDIDATES)
+      .get(),
+  ]);
+
+  const joinerRating = readRating(joinerRatingSnap).rating;
+  const joinerOffset = joinerClients.docs
+    .map((doc) => doc.data().utc_offset_minutes)
+    .find((offset) => typeof offset === "number");
+  const maxOffsetDistance = config.queue_join_max_timezone_distance_hours * 60;
+
+  const candidates = clientsSnapshot.docs.filter((doc) => {
+    const client = doc.data();
+    if (!client.fcm_token || !client.user_id || client.user_id === joinerId) {
+      return false;
+    }
+    if (
+      typeof joinerOffset === "number" &&
+      typeof client.utc_offset_minutes === "number" &&
+      Math.abs(client.utc_offset_minutes - joinerOffset) > maxOffsetDistance
+    ) {
+      return false;
+    }
+    return !inQuietHours(client, now, config);
+  });
+
+  const userIds = [...new Set(candidates.map((doc) => doc.data().user_id))];
+  const [ratingSnaps, budgetSnaps] = await Promise.all([
+    getAllChunked(userIds.map((id) => ratingRef(id))),
+    getAllChunked(userIds.map((id) => budgetRef(id, now))),
+  ]);
+
+  // Candidates are ordered by last_seen_at, so the cap keeps the most active
+  const eligibleUsers = new Set(
+    userIds
+      .filter((_, index) => {
+        const rating = readRating(ratingSnaps[index]).rating;
+        const sentToday: number = budgetSnaps[index].data()?.count ?? 0;
+        return (
+          Math.abs(rating - joinerRating) <= config.queue_join_rating_band &&
+          sentToday < config.queue_join_daily_budget
+        );
+      })
+      .slice(0, config.queue_join_max_recipients)
+  );
+
+  return candidates.filter((doc) => eligibleUsers.has(doc.data().user_id));
+}
+
+/**
+ * Counts a sent alert against each user's daily budget.
+ * @param {string[]} userIds The notified users
+ * @param {Date} now The current time
+ */
+export async function consumeNotificationBudget(
+  userIds: string[],
+  now: Date
+): Promise<void> {
+  const writer = db.bulkWriter();
+  // Lets a Firestore TTL policy on expires_at remove old budget documents
+  const expiresAt = admin.firestore.Timestamp.fromMillis(
+    now.getTime() + 2 * 24 * 60 * 60 * 1000
+  );
+  for (const userId of new Set(userIds)) {
+    writer.set(
+      budgetRef(userId, now),
+      {
+        user_id: userId,
+        count: admin.firestore.FieldValue.increment(1),
+        expires_at: expiresAt,
+      },
+      { merge: true }
+    );
+  }
+  await writer.close();
+}
@@ -0,0 +1,217 @@
+import { MatchResult } from "./player_stats";
+
+export const FALLBACK_LOCALE = "en";
+
+export type NotificationType =
+  | "challenge_alert"
+  | "challenge_received"
+  | "match_found"
+  | "opponent_finished"
+  | "match_result";
+
+interface NotificationTemplate {
+  title: string;
+  body: string;
+}
+
+interface LocaleStrings {
+  // Shown when a user has no username
+  anonymous_player: string;
+  // Filled into the {outcome} of match_result
+  outcomes: Record<MatchResult, string>;
+  templates: Record<NotificationType, NotificationTemplate>;
+}
+
+// Variables are written as {name} and filled by renderNotification
+const LOCALES: Record<string, LocaleStrings> = {
+  en: {
+    anonymous_player: "A Challenger",
+    outcomes: { win: "Victory!", loss: "Defeat", draw: "Draw" },
+    templates: {
+      challenge_alert: {
+        title: "⚡ Challenge Alert!",
+        body: "{username} is ready to duel! Join the queue and prove your skills.",
+      },
+      challenge_received: {
+        title: "🎯 You've been challenged!",
+        body: "{username} challenged you to a duel. Accept before it expires!",
+      },
+      match_found: {
+        title: "⚔️ Match found!",
+        body: "Your match against {opponents} starts in {seconds}s. Get ready!",
+      },
+      opponent_finished: {
+        title: "⏱️ {opponent} finished!",
+        body: "The clock is still running. Finish your puzzle!",
+      },
+      match_result: {
+        title: "🏁 {outcome}",
+        body: "You placed {placement} of {players}. Rating: {rating_after} ({rating_change}).",
+      },
+    },
+  },
+  es: {
+    anonymous_player: "Un retador",
+    outcomes: { win: "¡Victoria!", loss: "Derrota", draw: "Empate" },
+    templates: {
+      challenge_alert: {
+        title: "⚡ ¡Alerta de desafío!",
+        body: "¡{username} está listo para un duelo! Únete a la cola y demuestra tu habilidad.",
+      },
+      challenge_received: {
+        title: "🎯 ¡Te han desafiado!",
+        body: "{username} te desafió a un duelo. ¡Acepta antes de que expire!",
+      },
+      match_found: {
+        title: "⚔️ ¡Partida encontrada!",
+        body: "Tu partida contra {opponents} empieza en {seconds} s. ¡Prepárate!",
+      },
+      opponent_finished: {
+        title: "⏱️ ¡{opponent} terminó!",
+        body: "El reloj sigue corriendo. ¡Termina tu puzle!",
+      },
+      match_result: {
+        title: "🏁 {outcome}",
+        body: "Quedaste en el puesto {placement} de {players}. Puntuación: {rating_after} ({rating_change}).",
+      },
+    },
+  },
+  fr: {
+    anonymous_player: "Un challenger",
+    outcomes: { win: "Victoire !", loss: "Défaite", draw: "Match nul" },
+    templates: {
+      challenge_alert: {
+        title: "⚡ Alerte défi !",
+        body: "{username} est prêt pour un duel ! Rejoins la file et montre ton talent.",
+      },
+      challenge_received: {
+        title: "🎯 Tu as été défié !",
+        body: "{username} t'a défié en duel. Accepte avant l'expiration !",
+      },
+      match_found: {
+        title: "⚔️ Partie trouvée !",
+        body: "Ta partie contre {opponents} commence dans {seconds} s. Prépare-toi !",
+      },
+      opponent_finished: {
+        title: "⏱️ {opponent} a terminé !",
+        body: "Le chrono tourne encore. Termine ton puzzle !",
+      },
+      match_result: {
+        title: "🏁 {outcome}",
+        body: "Place {placement} sur {players}. Classement : {rating_after} ({rating_change}).",
+      },
+    },
+  },
+  de: {
+    anonymous_player: "Ein Herausforderer",
+    outcomes: { win: "Sieg!", loss: "Niederlage", draw: "Unentschieden" },
+    templates: {
+      challenge_alert: {
+        title: "⚡ Herausforderung!",
+        body: "{username} ist bereit für ein Duell! Tritt der Warteschlange bei und zeig, was du kannst.",
+      },
+      challenge_received: {
+        title: "🎯 Du wurdest herausgefordert!",
+        body: "{username} hat dich zum Duell herausgefordert. Nimm an, bevor es abläuft!",
+      },
+      match_found: {
+        title: "⚔️ Match gefunden!",
+        body: "Dein Match gegen {opponents} beginnt in {seconds} s. Mach dich bereit!",
+      },
+      opponent_finished: {
+        title: "⏱️ {opponent} ist fertig!",
+        body: "Die Uhr läuft noch. Löse dein Rätsel!",
+      },
+      match_result: {
+        title: "🏁 {outcome}",
+        body: "Platz {placement} von {players}. Wertung: {rating_after} ({rating_change}).",
+      },
+    },
+  },
+};
+
+/**
+ * Supported locale closest to a requested one: the exact tag, then its
+ * language (e.g. "es" for "es-MX"), then the fallback locale.
+ * @param {unknown} requested The requested locale, e.g. from a clients doc
+ * @return {string} A supported locale
+ */
+export function resolveLocale(requested: unknown): string {
+  if (typeof requested !== "string" || requested.length === 0) {
+    return FALLBACK_LOCALE;
+  }
+  const normalized = requested.replace("_", "-").toLowerCase();
+  if (LOCALES[normalized]) return normalized;
+
+  const language = normalized.split("-")[0];
+  return LOCALES[language] ? language : FALLBACK_LOCALE;
+}
+
+/**
+ * Replaces {name} placeholders; unknown variables render as empty strings.
+ * @param {string} text The template text
+ * @param {Record<string, string>} vars The variables
+ * @return {string} The interpolated text
+ */
+function interpolate(text: string, vars: Record<string, string>): string {
+  return text.replace(/\{(\w+)\}/g, (_, name) => vars[name] ?? "");
+}
+
+/**
+ * Localized display name for users without a username.
+ * @param {string} locale A supported locale
+ * @return {string} The display name
+ */
+export function anonymousPlayer(locale: string): string {
+  return (LOCALES[locale] ?? LOCALES[FALLBACK_LOCALE]).anonymous_player;
+}
+
+/**
+ * Localized name of a match outcome.
+ * @param {string} locale A supported locale
+ * @param {MatchResult} result The match result
+ * @return {string} The outcome name
+ */
+export function matchOutcome(locale: string, result: MatchResult): string {
+  return (LOCALES[locale] ?? LOCALES[FALLBACK_LOCALE]).outcomes[result];
+}
+
+/**
+ * Renders the title and body of a notification for a locale, falling back to
+ * the fallback locale for missing translations.
+ * @param {NotificationType} type The message type
+ * @param {string} locale A supported locale
+ * @param {Record<string, string>} vars Template variables
+ * @return {NotificationTemplate} The rendered title and body
+ */
+export function renderNotification(
+  type: NotificationType,
+  locale: string,
+  vars: Record<string, string>
+): NotificationTemplate {
+  const template =
+    LOCALES[locale]?.templates[type] ??
+    LOCALES[FALLBACK_LOCALE].templates[type];
+  return {
+    title: interpolate(template.title, vars),
+    body: interpolate(template.body, vars),
+  };
+}
+
+/**
+ * FCM data fields that let the app render the text itself: the localization
+ * keys of the template and its variables as JSON.
+ * @param {NotificationType} type The message type
+ * @param {Record<string, string>} vars Template variables
+ * @return {Record<string, string>} The data payload fields
+ */
+export function localizationData(
+  type: NotificationType,
+  vars: Record<string, string>
+): Record<string, string> {
+  return {
+    titleLocKey: `${type}_title`,
+    bodyLocKey: `${type}_body`,
+    locArgs: JSON.stringify(vars),
+  };
+}
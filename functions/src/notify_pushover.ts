@@ -1,11 +1,235 @@
 import * as admin from "firebase-admin";
 import { BaseMessage } from "firebase-admin/lib/messaging/messaging-api";
-import { onDocumentCreated } from "firebase-functions/v2/firestore";
+import * as logger from "firebase-functions/logger";
+import {
+  onDocumentCreated,
+  onDocumentDeleted,
+} from "firebase-functions/v2/firestore";
+import { getGameConfig } from "./config";
+import { Delivery, Device, Platform, resolveDevices } from "./devices";
+import { recordEvent } from "./metrics";
+import { restrictedUserIds } from "./moderation";
+import {
+  anonymousPlayer,
+  localizationData,
+  renderNotification,
+  resolveLocale,
+} from "./notification_templates";
+import {
+  consumeNotificationBudget,
+  selectQueueJoinAudience,
+} from "./notification_targeting";
+import { DeadToken, isDeadTokenError, pruneDeadTokens } from "./fcm_tokens";
+import { parseQueueEntry, tryParse } from "./schema";
 
 const db = admin.firestore();
 
+export interface SendResult {
+  success: number;
+  failure: number;
+  // Dead tokens that were pruned
+  invalid: number;
+}
+
+/**
+ * Sends a message to the given tokens in multicast batches. Tokens FCM
+ * reports as unregistered or invalid are pruned from `clients` and counted
+ * as invalid rather than as failures.
+ * @param {string[]} tokens The FCM registration tokens
+ * @param {BaseMessage} message The message shared by all tokens
+ * @param {string} messageType Label used in logs
+ * @return {Promise<SendResult>} Delivery counts
+ */
+export async function sendBatches(
+  tokens: string[],
+  message: BaseMessage,
+  messageType: string
+): Promise<SendResult> {
+  if (tokens.length === 0) return { success: 0, failure: 0, invalid: 0 };
+
+  const { notification_batch_size: batchSize } = await getGameConfig();
+  const batches: string[][] = [];
+
+  for (let i = 0; i < tokens.length; i += batchSize) {
+    batches.push(tokens.slice(i, i + batchSize));
+  }
+
+  const results = await Promise.allSettled(
+    batches.map(async (batch, index) => {
+      logger.info("fcm_batch_sending", {
+        message_type: messageType,
+        batch: index + 1,
+        batches: batches.length,
+        tokens: batch.length,
+      });
+
+      return admin.messaging().sendEachForMulticast({
+        ...message,
+        tokens: batch,
+      });
+    })
+  );
+
+  let successCount = 0;
+  let failureCount = 0;
+  const deadTokens: DeadToken[] = [];
+
+  results.forEach((result, index) => {
+    if (result.status === "fulfilled") {
+      const response = result.value;
+      successCount += response.successCount;
+
+      if (response.failureCount > 0) {
+        logger.warn("fcm_batch_failures", {
+          message_type: messageType,
+          batch: index + 1,
+          failures: response.failureCount,
+        });
+        response.responses.forEach((resp, tokenIndex) => {
+          if (resp.success) return;
+
+          if (isDeadTokenError(resp.error?.code, resp.error?.message)) {
+            deadTokens.push({
+              token: batches[index][tokenIndex],
+              code: resp.error?.code as string,
+            });
+          } else {
+            failureCount++;
+            logger.warn("fcm_token_failed", {
+              message_type: messageType,
+              batch: index + 1,
+              token_index: tokenIndex,
+              code: resp.error?.code,
+              error: resp.error?.message,
+            });
+          }
+        });
+      }
+    } else {
+      logger.error("fcm_batch_failed", {
+        message_type: messageType,
+        batch: index + 1,
+        tokens: batches[index].length,
+        error: String(result.reason),
+      });
+      failureCount += batches[index].length;
+    }
+  });
+
+  if (deadTokens.length > 0) {
+    try {
+      await pruneDeadTokens(deadTokens);
+    } catch (error) {
+      logger.error("fcm_prune_failed", {
+        message_type: messageType,
+        tokens: deadTokens.length,
+        error: String(error),
+      });
+    }
+  }
+
+  return {
+    success: successCount,
+    failure: failureCount,
+    invalid: deadTokens.length,
+  };
+}
+
+/**
+ * Adapts a message to a device: data-only for "foreground" delivery, and
+ * only the platform block the device's platform reads.
+ * @param {BaseMessage} message The full message
+ * @param {Platform} platform The device platform
+ * @param {Delivery} delivery The device's delivery mode
+ * @return {BaseMessage} The shaped message
+ */
+function shapeForDevice(
+  message: BaseMessage,
+  platform: Platform,
+  delivery: Delivery
+): BaseMessage {
+  const { notification, android, apns, webpush, ...rest } = message;
+  const shaped: BaseMessage = {
+    ...rest,
+    ...(delivery === "all" && { notification }),
+  };
+
+  switch (platform) {
+    case "android":
+      return { ...shaped, android };
+    case "ios":
+      return { ...shaped, apns };
+    case "web":
+      return {
+        ...shaped,
+        webpush: webpush ?? {
+          headers: {
+            Urgency: android?.priority === "high" ? "high" : "normal",
+            ...(android?.ttl !== undefined && {
+              TTL: String(Math.floor(android.ttl / 1000)),
+            }),
+          },
+        },
+      };
+    default:
+      return { ...shaped, android, apns, webpush };
+  }
+}
+
 /**
- * Fires when a user joins the queue and sends FCM notifications to all other users.
+ * Sends a notification to devices, batching tokens that share a locale,
+ * platform and delivery mode. Devices of restricted users are skipped.
+ * @param {Device[]} devices The devices to notify
+ * @param {function(string): BaseMessage} buildMessage Builds the full
+ *   message, including its notification, for a supported locale
+ * @param {string} messageType Label used in logs
+ * @return {Promise<SendResult>} Delivery counts of all groups
+ */
+export async function fanOut(
+  devices: Device[],
+  buildMessage: (locale: string) => BaseMessage,
+  messageType: string
+): Promise<SendResult> {
+  // Banned and suspended users get no pushes
+  const restricted = await restrictedUserIds(
+    devices.map((device) => device.userId)
+  );
+
+  const groups = new Map<string, Device[]>();
+  for (const device of devices) {
+    if (restricted.has(device.userId)) continue;
+    const key = [
+      resolveLocale(device.locale),
+      device.platform,
+      device.delivery,
+    ].join("|");
+    groups.set(key, [...(groups.get(key) ?? []), device]);
+  }
+
+  const totals: SendResult = { success: 0, failure: 0, invalid: 0 };
+  const messages = new Map<string, BaseMessage>();
+
+  for (const [key, group] of groups) {
+    const [locale] = key.split("|");
+    const { platform, delivery } = group[0];
+    const message = messages.get(locale) ?? buildMessage(locale);
+    messages.set(locale, message);
+
+    const results = await sendBatches(
+      group.map((device) => device.token),
+      shapeForDevice(message, platform, delivery),
+      `${messageType}:${key}`
+    );
+    totals.success += results.success;
+    totals.failure += results.failure;
+    totals.invalid += results.invalid;
+  }
+  return totals;
+}
+
+/**
+ * Fires when a user joins the queue and sends FCM notifications to a targeted,
+ * throttled audience of other users.
  * Document path: match_queue/{userId}
  */
 export const notifyUsersOnQueueJoin = onDocumentCreated(
@@ -15,27 +239,37 @@ export const notifyUsersOnQueueJoin = onDocumentCreated(
     const userId = event.params.userId;
 
     if (!doc || !userId) {
-      console.log("Invalid event data - missing document or userId");
+      logger.warn("queue_alert_skipped", { reason: "invalid_event" });
       return;
     }
 
-    const data =
-      (doc.data() as {
-        username?: string | null;
-        avatar?: string | null;
-      }) || {};
-    const username = data.username ?? "A Challenger";
+    // onQueueUpdated quarantines malformed entries
+    const data = tryParse(parseQueueEntry, doc.data());
+    if (!data) {
+      logger.warn("queue_alert_skipped", {
+        user_id: userId,
+        reason: "invalid_entry",
+      });
+      return;
+    }
 
     try {
+      const config = await getGameConfig(userId);
+
       // Rate limiting: prevent spam from rapid queue joins
       const recentJoinsRef = db.collection("recent_queue_joins").doc(userId);
       const recentJoin = await recentJoinsRef.get();
 
       if (recentJoin.exists) {
         const lastJoin = recentJoin.data()?.timestamp?.toDate();
-        if (lastJoin && Date.now() - lastJoin.getTime() < 5000) {
-          // 5 seconds
-          console.log(`Rate limiting: ${userId} joined recently`);
+        if (
+          lastJoin &&
+          Date.now() - lastJoin.getTime() < config.queue_join_rate_limit_ms
+        ) {
+          logger.info("queue_alert_skipped", {
+            user_id: userId,
+            reason: "rate_limited",
+          });
           return;
         }
       }
@@ -45,182 +279,186 @@ export const notifyUsersOnQueueJoin = onDocumentCreated(
         timestamp: admin.firestore.FieldValue.serverTimestamp(),
       });
 
-      // Fetch all clients except the triggering user
-      // We'll filter out those with both notifications disabled in-memory since
-      // complex Firestore queries can be limiting and defaults are true
-      const clientsSnapshot = await db
-        .collection("clients")
-        .where("user_id", "!=", userId)
-        .get();
-
-      if (clientsSnapshot.empty) {
-        console.log("No clients found to notify");
+      if ((await restrictedUserIds([userId])).size > 0) {
+        logger.info("queue_alert_skipped", {
+          user_id: userId,
+          reason: "restricted",
+        });
         return;
       }
 
-      // Group clients by notification preferences
-      const notifyAllTokens: string[] = [];
-      const foregroundOnlyTokens: string[] = [];
-
-      clientsSnapshot.forEach((doc) => {
-        const clientData = doc.data();
-        if (clientData.fcm_token) {
-          // Default to true if settings are missing
-          const notifyAll = clientData.notify_background_queue_joins !== false;
-          const notifyForegroundOnly =
-            clientData.notify_foreground_queue_joins !== false;
-
-          // Skip clients who have both notifications explicitly disabled
-          if (!notifyAll && !notifyForegroundOnly) {
-            return;
-          }
+      // Give onQueueUpdated a moment; a joiner matched instantly needs no alert
+      await new Promise((resolve) =>
+        setTimeout(resolve, config.queue_join_notification_delay_ms)
+      );
+      if (!(await doc.ref.get()).exists) {
+        logger.info("queue_alert_skipped", {
+          user_id: userId,
+          reason: "left_queue",
+        });
+        return;
+      }
 
-          // Prioritize background notifications
-          if (notifyAll) {
-            notifyAllTokens.push(clientData.fcm_token);
-          } else if (notifyForegroundOnly) {
-            foregroundOnlyTokens.push(clientData.fcm_token);
-          }
-        }
-      });
+      const now = new Date();
+      const audience = await selectQueueJoinAudience(userId, config, now);
 
-      const totalTokens = notifyAllTokens.length + foregroundOnlyTokens.length;
-      if (totalTokens === 0) {
-        console.log(
-          "No valid FCM tokens found or all users have notifications disabled"
-        );
+      if (audience.length === 0) {
+        logger.info("queue_alert_skipped", {
+          user_id: userId,
+          reason: "no_audience",
+        });
         return;
       }
 
-      console.log(
-        `Sending notifications to ${notifyAllTokens.length} background devices and ${foregroundOnlyTokens.length} foreground devices`
-      );
+      const devices = await resolveDevices(audience, "challenge_alert");
+      if (devices.length === 0) {
+        logger.info("queue_alert_skipped", {
+          user_id: userId,
+          reason: "no_devices",
+          audience: audience.length,
+        });
+        return;
+      }
 
-      const notification: BaseMessage["notification"] = {
-        title: "⚡ Challenge Alert!",
-        body: `${username} is ready to duel! Join the queue and prove your skills.`,
-      };
+      const results = await fanOut(
+        devices,
+        (locale) => {
+          const vars = {
+            username: data.username ?? anonymousPlayer(locale),
+          };
+          const notification: BaseMessage["notification"] = renderNotification(
+            "challenge_alert",
+            locale,
+            vars
+          );
 
-      // Base message structure (shared components)
-      const baseMessage: BaseMessage = {
-        data: {
-          type: "challenge_alert",
-          userId: userId,
-          username: username,
-          userAvatar: data.avatar || "",
-          ...notification,
-        },
-        android: {
-          priority: "high" as const,
-          ttl: 45 * 1000, // 45 seconds
-        },
-        apns: {
-          headers: {
-            "apns-priority": "10",
-          },
-          payload: {
-            aps: {
-              contentAvailable: true,
-              badge: 1,
-              sound: "default",
-              "interruption-level": "time-sensitive",
+          return {
+            notification,
+            data: {
+              type: "challenge_alert",
+              userId: userId,
+              username: vars.username,
+              userAvatar: data.avatar || "",
+              locale,
+              ...localizationData("challenge_alert", vars),
+              ...notification,
             },
-          },
+            android: {
+              priority: "high" as const,
+              ttl: config.queue_join_notification_ttl_ms,
+            },
+            apns: {
+              headers: {
+                "apns-priority": "10",
+              },
+              payload: {
+                aps: {
+                  contentAvailable: true,
+                  badge: 1,
+                  sound: "default",
+                  "interruption-level": "time-sensitive",
+                },
+              },
+            },
+          };
         },
-      };
+        "challenge_alert"
+      );
 
-      // Function to send messages in batches
-      const sendBatches = async (
-        tokens: string[],
-        message: BaseMessage,
-        messageType: string
-      ) => {
-        if (tokens.length === 0) return { success: 0, failure: 0 };
+      await recordEvent("notification_sent", {
+        durationMs: Date.now() - data.joined_at.toMillis(),
+        sums: {
+          devices: devices.length,
+          success: results.success,
+          failure: results.failure,
+          invalid: results.invalid,
+        },
+        context: { user_id: userId, type: "challenge_alert" },
+      });
 
-        const BATCH_SIZE = 400;
-        const batches: string[][] = [];
+      const notifiedUserIds = devices.map((device) => device.userId);
+      await consumeNotificationBudget(notifiedUserIds, now);
 
-        for (let i = 0; i < tokens.length; i += BATCH_SIZE) {
-          batches.push(tokens.slice(i, i + BATCH_SIZE));
-        }
+      // Remember who was alerted so the alert can be cleared once the
+      // challenge is taken
+      const alertRef = db.collection("queue_join_alerts").doc(userId);
+      await alertRef.set({
+        tokens: devices.map((device) => device.token),
+        sent_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      if (!(await doc.ref.get()).exists) {
+        // Matched while sending; the delete trigger may have missed the alert
+        await clearQueueJoinAlert(userId);
+      }
+    } catch (err) {
+      logger.error("queue_alert_failed", {
+        user_id: userId,
+        error: String(err),
+      });
+    }
+  }
+);
 
-        const results = await Promise.allSettled(
-          batches.map(async (batch, index) => {
-            console.log(
-              `Sending ${messageType} batch ${index + 1}/${batches.length} (${
-                batch.length
-              } tokens)`
-            );
-
-            return admin.messaging().sendEachForMulticast({
-              ...message,
-              tokens: batch,
-            });
-          })
-        );
-
-        let successCount = 0;
-        let failureCount = 0;
-
-        results.forEach((result, index) => {
-          if (result.status === "fulfilled") {
-            const response = result.value;
-            successCount += response.successCount;
-            failureCount += response.failureCount;
-
-            if (response.failureCount > 0) {
-              console.warn(
-                `${messageType} batch ${index + 1} had ${
-                  response.failureCount
-                } failures`
-              );
-              response.responses.forEach((resp, tokenIndex) => {
-                if (!resp.success) {
-                  console.warn(
-                    `${messageType} token ${tokenIndex} failed:`,
-                    resp.error?.message
-                  );
-                }
-              });
-            }
-          } else {
-            console.error(
-              `${messageType} batch ${index + 1} failed entirely:`,
-              result.reason
-            );
-            failureCount += batches[index].length;
-          }
-        });
+/**
+ * Sends a silent "challenge taken" message to every device that received the
+ * queue-join alert of a user, so apps can remove the stale alert.
+ * @param {string} userId The user whose alert should be cleared
+ */
+async function clearQueueJoinAlert(userId: string): Promise<void> {
+  const alertRef = db.collection("queue_join_alerts").doc(userId);
+  const alert = await alertRef.get();
+  if (!alert.exists) return;
 
-        return { success: successCount, failure: failureCount };
-      };
+  const tokens: string[] = alert.data()?.tokens ?? [];
 
-      // Send messages to both groups
-      const [backgroundResults, foregroundResults] = await Promise.all([
-        sendBatches(
-          notifyAllTokens,
-          { ...baseMessage, notification },
-          "background"
-        ),
-        sendBatches(foregroundOnlyTokens, baseMessage, "foreground"),
-      ]);
-
-      const totalSuccess =
-        backgroundResults.success + foregroundResults.success;
-      const totalFailure =
-        backgroundResults.failure + foregroundResults.failure;
-
-      console.log(
-        `FCM notifications completed: ${totalSuccess} successful, ${totalFailure} failed ` +
-          `(Background: ${backgroundResults.success}/${
-            backgroundResults.success + backgroundResults.failure
-          }, ` +
-          `Foreground: ${foregroundResults.success}/${
-            foregroundResults.success + foregroundResults.failure
-          })`
-      );
+  await alertRef.delete();
+  const results = await sendBatches(
+    tokens,
+    {
+      data: {
+        type: "challenge_taken",
+        userId,
+      },
+      android: {
+        priority: "normal" as const,
+      },
+      apns: {
+        headers: {
+          "apns-priority": "5",
+        },
+        payload: {
+          aps: {
+            contentAvailable: true,
+          },
+        },
+      },
+    },
+    "challenge_taken"
+  );
+
+  logger.info("queue_alert_cleared", {
+    user_id: userId,
+    success: results.success,
+    failure: results.failure,
+  });
+}
+
+/**
+ * Fires when a user leaves the queue, either matched or cancelled, and clears
+ * the alert other users received for them.
+ * Document path: match_queue/{userId}
+ */
+export const clearAlertsOnQueueLeave = onDocumentDeleted(
+  "match_queue/{userId}",
+  async (event) => {
+    const userId = event.params.userId;
+    try {
+      await clearQueueJoinAlert(userId);
     } catch (err) {
-      console.error("Failed to send FCM notifications:", err);
+      logger.error("queue_alert_clear_failed", {
+        user_id: userId,
+        error: String(err),
+      });
     }
   }
 );
@@ -0,0 +1,405 @@
+import * as admin from "firebase-admin";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+
+const db = admin.firestore();
+
+// Leaderboard points per result
+export const POINTS = { win: 3, draw: 1, loss: 0 };
+const MAX_PAGE_SIZE = 100;
+// gRPC status of a create whose document already exists
+const ALREADY_EXISTS = 6;
+
+export type MatchResult = "win" | "loss" | "draw";
+export type LeaderboardPeriod = "daily" | "weekly" | "all_time";
+
+export interface PlayerStats {
+  wins: number;
+  losses: number;
+  draws: number;
+  games_played: number;
+  current_streak: number;
+  best_streak: number;
+  total_match_duration: number;
+  average_match_duration: number;
+  // Fastest finish in ms from start_at, by puzzle_id
+  fastest_finishes: Record<string, number>;
+  // Matches against bots, kept out of every other stat
+  bot_games_played: number;
+  bot_wins: number;
+}
+
+export interface StatsOutcome {
+  result: MatchResult;
+  puzzleId: string;
+  matchDuration: number;
+  // Time from start_at to the player's finish, null when not finished
+  finishMs: number | null;
+}
+
+/**
+ * Stats document of a player.
+ * Document path: player_stats/{userId}
+ * @param {string} userId The player id
+ * @return {admin.firestore.DocumentReference} The stats document reference
+ */
+export function statsRef(userId: string): admin.firestore.DocumentReference {
+  return db.collection("player_stats").doc(userId);
+}
+
+/**
+ * Reads a stats document, falling back to empty stats for new players.
+ * @param {admin.firestore.DocumentSnapshot} snap The stats document snapshot
+ * @return {PlayerStats} The player's stats
+ */
+export function readStats(snap: admin.firestore.DocumentSnapshot): PlayerStats {
+  const data = snap.exists ? snap.data() : undefined;
+  const num = (value: unknown) => (typeof value === "number" ? value : 0);
+  return {
+    wins: num(data?.wins),
+    losses: num(data?.losses),
+    draws: num(data?.draws),
+    games_played: num(data?.games_played),
+    current_streak: num(data?.current_streak),
+    best_streak: num(data?.best_streak),
+    total_match_duration: num(data?.total_match_duration),
+    average_match_duration: num(data?.average_match_duration),
+    fastest_finishes: { ...(data?.fastest_finishes ?? {}) },
+    bot_games_played: num(data?.bot_games_played),
+    bot_wins: num(data?.bot_wins),
+  };
+}
+
+/**
+ * Stats after one more completed match. Streaks count consecutive wins;
+ * a draw or loss resets the current streak.
+ * @param {PlayerStats} stats The stats before the match
+ * @param {StatsOutcome} outcome The player's outcome in the match
+ * @return {PlayerStats} The updated stats
+ */
+export function applyOutcome(
+  stats: PlayerStats,
+  outcome: StatsOutcome
+): PlayerStats {
+  const gamesPlayed = stats.games_played + 1;
+  const totalDuration = stats.total_match_duration + outcome.matchDuration;
+  const currentStreak = outcome.result === "win" ? stats.current_streak + 1 : 0;
+
+  const fastestFinishes = { ...stats.fastest_finishes };
+  const previousFastest = fastestFinishes[outcome.puzzleId];
+  if (
+    outcome.finishMs !== null &&
+    (previousFastest === undefined || outcome.finishMs < previousFastest)
+  ) {
+    fastestFinishes[outcome.puzzleId] = outcome.finishMs;
+  }
+
+  return {
+    wins: stats.wins + (outcome.result === "win" ? 1 : 0),
+    losses: stats.losses + (outcome.result === "loss" ? 1 : 0),
+    draws: stats.draws + (outcome.result === "draw" ? 1 : 0),
+    games_played: gamesPlayed,
+    current_streak: currentStreak,
+    best_streak: Math.max(stats.best_streak, currentStreak),
+    total_match_duration: totalDuration,
+    average_match_duration: Math.round(totalDuration / gamesPlayed),
+    fastest_finishes: fastestFinishes,
+    bot_games_played: stats.bot_games_played,
+    bot_wins: stats.bot_wins,
+  };
+}
+
+/**
+ * Stats after one more match against a bot.
+ * @param {PlayerStats} stats The stats before the match
+ * @param {MatchResult} result The player's result
+ * @return {PlayerStats} The updated stats
+ */
+export function applyBotOutcome(
+  stats: PlayerStats,
+  result: MatchResult
+): PlayerStats {
+  return {
+    ...stats,
+    bot_games_played: stats.bot_games_played + 1,
+    bot_wins: stats.bot_wins + (result === "win" ? 1 : 0),
+  };
+}
+
+export interface StatsCorrection extends Omit<StatsOutcome, "result"> {
+  before: MatchResult;
+  // Null when the match was voided
+  after: MatchResult | null;
+}
+
+/**
+ * Stats after an admin changed or voided the result of a past match.
+ * Streaks are left alone since later matches built on them. A fastest finish
+ * set in the match is dropped when the match was voided or the win taken
+ * away.
+ * @param {PlayerStats} stats The current stats
+ * @param {StatsCorrection} correction The old and new result of the match
+ * @return {PlayerStats} The corrected stats
+ */
+export function correctOutcome(
+  stats: PlayerStats,
+  correction: StatsCorrection
+): PlayerStats {
+  const { before, after } = correction;
+  const count = (result: MatchResult) =>
+    (after === result ? 1 : 0) - (before === result ? 1 : 0);
+  const gamesPlayed = stats.games_played - (after === null ? 1 : 0);
+  const totalDuration =
+    stats.total_match_duration -
+    (after === null ? correction.matchDuration : 0);
+
+  const fastestFinishes = { ...stats.fastest_finishes };
+  if (
+    (after === null || (before === "win" && after !== "win")) &&
+    correction.finishMs !== null &&
+    fastestFinishes[correction.puzzleId] === correction.finishMs
+  ) {
+    delete fastestFinishes[correction.puzzleId];
+  }
+
+  return {
+    ...stats,
+    wins: stats.wins + count("win"),
+    losses: stats.losses + count("loss"),
+    draws: stats.draws + count("draw"),
+    games_played: gamesPlayed,
+    total_match_duration: totalDuration,
+    average_match_duration:
+      gamesPlayed > 0 ? Math.round(totalDuration / gamesPlayed) : 0,
+    fastest_finishes: fastestFinishes,
+  };
+}
+
+/**
+ * Stats after an admin changed or voided the result of a past bot match.
+ * @param {PlayerStats} stats The current stats
+ * @param {MatchResult} before The recorded result
+ * @param {MatchResult | null} after The new result, null when voided
+ * @return {PlayerStats} The corrected stats
+ */
+export function correctBotOutcome(
+  stats: PlayerStats,
+  before: MatchResult,
+  after: MatchResult | null
+): PlayerStats {
+  return {
+    ...stats,
+    bot_games_played: stats.bot_games_played - (after === null ? 1 : 0),
+    bot_wins:
+      stats.bot_wins + (after === "win" ? 1 : 0) - (before === "win" ? 1 : 0),
+  };
+}
+
+/**
+ * ISO-8601 week key of a date, e.g. 2026-W42.
+ * @param {Date} date The date
+ * @return {string} The week key
+ */
+function isoWeekKey(date: Date): string {
+  const day = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+  // Thursday of the current week decides the ISO year
+  day.setUTCDate(day.getUTCDate() + 4 - (day.getUTCDay() || 7));
+  const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1);
+  const week = Math.ceil((day.getTime() - yearStart) / 86400000 / 7 + 1 / 7);
+  return `${day.getUTCFullYear()}-W${String(week).padStart(2, "0")}`;
+}
+
+/**
+ * Leaderboard document id for a period at a given time (UTC buckets).
+ * Document path: leaderboards/{boardId}
+ * @param {LeaderboardPeriod} period The leaderboard period
+ * @param {Date} date A time within the period
+ * @return {string} The leaderboard id
+ */
+export function leaderboardId(period: LeaderboardPeriod, date: Date): string {
+  switch (period) {
+    case "daily":
+      return `daily_${date.toISOString().slice(0, 10)}`;
+    case "weekly":
+      return `weekly_${isoWeekKey(date)}`;
+    case "all_time":
+      return "all_time";
+  }
+}
+
+// Leaderboards known to have their root document, per instance
+const createdBoardIds = new Set<string>();
+
+/**
+ * Creates the root documents of the leaderboards a match completed on, once
+ * per board. Outside of the finalize transactions, which would all contend
+ * on these documents otherwise.
+ * @param {admin.firestore.Timestamp} completedAt When the match completed
+ */
+export async function ensureLeaderboards(
+  completedAt: admin.firestore.Timestamp
+): Promise<void> {
+  const periods: LeaderboardPeriod[] = ["daily", "weekly", "all_time"];
+
+  await Promise.all(
+    periods.map(async (period) => {
+      const boardId = leaderboardId(period, completedAt.toDate());
+      if (createdBoardIds.has(boardId)) return;
+      try {
+        await db.collection("leaderboards").doc(boardId).create({
+          period,
+          created_at: admin.firestore.Timestamp.now(),
+        });
+      } catch (error) {
+        if ((error as { code?: unknown }).code !== ALREADY_EXISTS) throw error;
+      }
+      createdBoardIds.add(boardId);
+    })
+  );
+}
+
+/**
+ * Adds a player's result to the daily, weekly and all-time leaderboards.
+ * Uses increments so no reads are needed inside the transaction. The root
+ * documents of the boards are left to ensureLeaderboards.
+ * @param {admin.firestore.Transaction} tx The running transaction
+ * @param {string} playerId The player id
+ * @param {MatchResult} result The player's result
+ * @param {object} profile Display fields copied onto the entry
+ * @param {admin.firestore.Timestamp} completedAt When the match completed
+ */
+export function updateLeaderboards(
+  tx: admin.firestore.Transaction,
+  playerId: string,
+  result: MatchResult,
+  profile: { username?: string | null; avatar?: string | null },
+  completedAt: admin.firestore.Timestamp
+): void {
+  const increment = admin.firestore.FieldValue.increment;
+  const periods: LeaderboardPeriod[] = ["daily", "weekly", "all_time"];
+
+  for (const period of periods) {
+    tx.set(
+      db
+        .collection("leaderboards")
+        .doc(leaderboardId(period, completedAt.toDate()))
+        .collection("entries")
+        .doc(playerId),
+      {
+        user_id: playerId,
+        username: profile.username ?? null,
+        avatar: profile.avatar ?? null,
+        score: increment(POINTS[result]),
+        wins: increment(result === "win" ? 1 : 0),
+        games_played: increment(1),
+        updated_at: completedAt,
+      },
+      { merge: true }
+    );
+  }
+}
+
+/**
+ * Moves a player's result on the leaderboards of a past match from the
+ * recorded result to the corrected one, or removes it for a voided match.
+ * @param {admin.firestore.Transaction} tx The running transaction
+ * @param {string} playerId The player id
+ * @param {MatchResult} before The recorded result
+ * @param {MatchResult | null} after The new result, null when voided
+ * @param {admin.firestore.Timestamp} completedAt When the match completed
+ */
+export function correctLeaderboards(
+  tx: admin.firestore.Transaction,
+  playerId: string,
+  before: MatchResult,
+  after: MatchResult | null,
+  completedAt: admin.firestore.Timestamp
+): void {
+  const increment = admin.firestore.FieldValue.increment;
+  const periods: LeaderboardPeriod[] = ["daily", "weekly", "all_time"];
+
+  for (const period of periods) {
+    tx.set(
+      db
+        .collection("leaderboards")
+        .doc(leaderboardId(period, completedAt.toDate()))
+        .collection("entries")
+        .doc(playerId),
+      {
+        score: increment((after ? POINTS[after] : 0) - POINTS[before]),
+        wins: increment((after === "win" ? 1 : 0) - (before === "win" ? 1 : 0)),
+        games_played: increment(after === null ? -1 : 0),
+      },
+      { merge: true }
+    );
+  }
+}
+
+/**
+ * Returns a page of a leaderboard and the caller's rank on it.
+ * Request: { period?: LeaderboardPeriod, page?: number, pageSize?: number }
+ */
+export const getLeaderboard = onCall(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw new HttpsError("unauthenticated", "Sign in to view leaderboards");
+  }
+
+  const period: LeaderboardPeriod = request.data?.period ?? "all_time";
+  if (!["daily", "weekly", "all_time"].includes(period)) {
+    throw new HttpsError("invalid-argument", `Unknown period ${period}`);
+  }
+
+  const page = Number.isInteger(request.data?.page) ? request.data.page : 0;
+  const pageSize = Number.isInteger(request.data?.pageSize)
+    ? Math.min(MAX_PAGE_SIZE, Math.max(1, request.data.pageSize))
+    : 25;
+  if (page < 0) {
+    throw new HttpsError("invalid-argument", "page must be >= 0");
+  }
+
+  const boardId = leaderboardId(period, new Date());
+  const entries = db
+    .collection("leaderboards")
+    .doc(boardId)
+    .collection("entries");
+
+  const [pageSnap, callerDoc] = await Promise.all([
+    entries
+      .orderBy("score", "desc")
+      .offset(page * pageSize)
+      .limit(pageSize)
+      .get(),
+    entries.doc(uid).get(),
+  ]);
+
+  // Rank counts players with a strictly higher score, so ties share a rank
+  let caller = null;
+  if (callerDoc.exists) {
+    const score: number = callerDoc.data()?.score ?? 0;
+    const higher = await entries.where("score", ">", score).count().get();
+    caller = {
+      rank: higher.data().count + 1,
+      score,
+      wins: callerDoc.data()?.wins ?? 0,
+      gamesPlayed: callerDoc.data()?.games_played ?? 0,
+    };
+  }
+
+  return {
+    boardId,
+    page,
+    pageSize,
+    entries: pageSnap.docs.map((doc, index) => ({
+      position: page * pageSize + index + 1,
+      userId: doc.id,
+      username: doc.data().username ?? null,
+      avatar: doc.data().avatar ?? null,
+      score: doc.data().score ?? 0,
+      wins: doc.data().wins ?? 0,
+      gamesPlayed: doc.data().games_played ?? 0,
+    })),
+    caller,
+  };
+});
@@ -0,0 +1,281 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import { advanceBots } from "./bots";
+import { GameConfig, getGameConfig } from "./config";
+import { matchRef, requireMatch } from "./matches";
+import { Match } from "./schema";
+import { readSubmission, submissionRef } from "./submissions";
+
+const db = admin.firestore();
+
+// invalid_state is decided at finalization for a malformed `player_states` entry
+export type ForfeitReason = "quit" | "disconnect" | "invalid_state";
+export type ConnectionState =
+  | "connected"
+  | "disconnected"
+  | "finished"
+  | "forfeited";
+
+// Presence fields of a `player_states` entry
+export interface PresenceState {
+  last_heartbeat_at?: admin.firestore.Timestamp | null;
+  disconnected_at?: admin.firestore.Timestamp | null;
+  quit_at?: admin.firestore.Timestamp | null;
+  forfeited_at?: admin.firestore.Timestamp | null;
+  forfeit_reason?: ForfeitReason | null;
+  finished_at?: admin.firestore.Timestamp | null;
+}
+
+export interface Forfeit {
+  reason: ForfeitReason;
+  at: admin.firestore.Timestamp;
+}
+
+export interface MatchClock {
+  startAt: number;
+  elapsedMs: number;
+  remainingMs: number;
+}
+
+/**
+ * Time since which a player counts as disconnected, or null while connected.
+ * Players that never sent a heartbeat (older clients) are never disconnected.
+ * @param {PresenceState} state The player's entry in `player_states`
+ * @param {number} nowMs The current time
+ * @param {GameConfig} config Heartbeat timeout
+ * @return {number | null} Disconnect time in ms
+ */
+function disconnectedSince(
+  state: PresenceState,
+  nowMs: number,
+  config: GameConfig
+): number | null {
+  if (state.disconnected_at) return state.disconnected_at.toMillis();
+  if (!state.last_heartbeat_at) return null;
+
+  const since =
+    state.last_heartbeat_at.toMillis() +
+    config.heartbeat_timeout_seconds * 1000;
+  return since <= nowMs ? since : null;
+}
+
+/**
+ * Whether and why a player forfeits a match at a given time. Quitting
+ * forfeits immediately; a disconnect only once it lasted longer than the
+ * grace period, counted from the match start at the earliest.
+ * @param {PresenceState} state The player's entry in `player_states`
+ * @param {number} atMs The time to evaluate
+ * @param {number} startAtMs The match start
+ * @param {GameConfig} config Heartbeat timeout and disconnect grace period
+ * @return {Forfeit | null} The forfeit, or null if the player is still in
+ */
+export function forfeitOf(
+  state: PresenceState,
+  atMs: number,
+  startAtMs: number,
+  config: GameConfig
+): Forfeit | null {
+  if (state.quit_at) return { reason: "quit", at: state.quit_at };
+  if (state.forfeited_at) {
+    return {
+      reason: state.forfeit_reason ?? "disconnect",
+      at: state.forfeited_at,
+    };
+  }
+  if (state.finished_at) return null;
+
+  const since = disconnectedSince(state, atMs, config);
+  if (since === null) return null;
+
+  const forfeitAtMs =
+    Math.max(since, startAtMs) + config.disconnect_grace_seconds * 1000;
+  return forfeitAtMs <= atMs
+    ? {
+        reason: "disconnect",
+        at: admin.firestore.Timestamp.fromMillis(forfeitAtMs),
+      }
+    : null;
+}
+
+/**
+ * Connection state of a player as shown to the other players.
+ * @param {PresenceState} state The player's entry in `player_states`
+ * @param {number} nowMs The current time
+ * @param {number} startAtMs The match start
+ * @param {GameConfig} config Heartbeat timeout and disconnect grace period
+ * @return {ConnectionState} The connection state
+ */
+function connectionState(
+  state: PresenceState,
+  nowMs: number,
+  startAtMs: number,
+  config: GameConfig
+): ConnectionState {
+  if (forfeitOf(state, nowMs, startAtMs, config)) return "forfeited";
+  if (state.finished_at) return "finished";
+  return disconnectedSince(state, nowMs, config) === null
+    ? "connected"
+    : "disconnected";
+}
+
+/**
+ * Server-side timing of a match.
+ * @param {Match} match The match
+ * @param {number} nowMs The current time
+ * @return {MatchClock} Start time, elapsed and remaining time
+ */
+export function matchClock(match: Match, nowMs: number): MatchClock {
+  const startAt = match.start_at.toMillis();
+  const endsAt = startAt + (match.max_duration ?? 0) * 1000;
+  return {
+    startAt,
+    elapsedMs: Math.max(0, nowMs - startAt),
+    remainingMs: Math.max(0, endsAt - Math.max(nowMs, startAt)),
+  };
+}
+
+/**
+ * Validates the match id of a request.
+ * @param {unknown} data The callable request data
+ * @return {string} The match id
+ */
+export function requireMatchId(data: unknown): string {
+  const matchId = (data as { matchId?: unknown } | null)?.matchId;
+  if (typeof matchId !== "string" || matchId.length === 0) {
+    throw new HttpsError("invalid-argument", "matchId is required");
+  }
+  return matchId;
+}
+
+/**
+ * Records a heartbeat of a player and, as a side effect, marks opponents
+ * whose heartbeats stopped as disconnected or forfeited. A heartbeat from a
+ * disconnected player reconnects it.
+ * @param {string} matchId The match id
+ * @param {string} uid The player sending the heartbeat
+ * @return {Promise<object>} The match data before the update and the time
+ */
+async function recordHeartbeat(
+  matchId: string,
+  uid: string
+): Promise<{ match: Match; nowMs: number }> {
+  const config = await getGameConfig(uid);
+  const ref = matchRef(matchId);
+
+  return db.runTransaction(async (tx) => {
+    const match = requireMatch(await tx.get(ref));
+    const players = match.players;
+    if (!players.includes(uid)) {
+      throw new HttpsError("permission-denied", "Not a player in this match");
+    }
+
+    const now = admin.firestore.Timestamp.now();
+    const nowMs = now.toMillis();
+    const clock = matchClock(match, nowMs);
+    if (clock.elapsedMs > 0 && clock.remainingMs === 0) {
+      throw new HttpsError("deadline-exceeded", "Match time has elapsed");
+    }
+
+    const ownState: PresenceState = match.player_states[uid] ?? {};
+    const ownForfeit = forfeitOf(ownState, nowMs, clock.startAt, config);
+    if (ownForfeit) {
+      throw new HttpsError(
+        "failed-precondition",
+        `Player forfeited the match (${ownForfeit.reason})`
+      );
+    }
+
+    const updates: admin.firestore.UpdateData<admin.firestore.DocumentData> = {
+      [`player_states.${uid}.last_heartbeat_at`]: now,
+    };
+    if (disconnectedSince(ownState, nowMs, config) !== null) {
+      updates[`player_states.${uid}.disconnected_at`] =
+        admin.firestore.FieldValue.delete();
+      updates[`player_states.${uid}.reconnects`] =
+        admin.firestore.FieldValue.increment(1);
+      logger.info("player_reconnected", { match_id: matchId, user_id: uid });
+    }
+
+    for (const playerId of players) {
+      const state: PresenceState = match.player_states[playerId] ?? {};
+      if (playerId === uid || state.forfeited_at || state.quit_at) continue;
+
+      const forfeit = forfeitOf(state, nowMs, clock.startAt, config);
+      const since = disconnectedSince(state, nowMs, config);
+      const statePath = `player_states.${playerId}`;
+      if (forfeit) {
+        updates[`${statePath}.forfeited_at`] = forfeit.at;
+        updates[`${statePath}.forfeit_reason`] = forfeit.reason;
+        logger.info("player_forfeited", {
+          match_id: matchId,
+          user_id: playerId,
+        });
+      } else if (since !== null && !state.disconnected_at) {
+        updates[`${statePath}.disconnected_at`] =
+          admin.firestore.Timestamp.fromMillis(since);
+      }
+    }
+
+    // Reads bot submissions, so it runs before the heartbeat is written
+    await advanceBots(tx, ref, match, now);
+    tx.update(ref, updates);
+    return { match, nowMs };
+  });
+}
+
+/**
+ * Keeps a player connected to a live match. Clients call this every few
+ * seconds, well within `heartbeat_timeout_seconds`.
+ */
+export const heartbeat = onCall(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw new HttpsError("unauthenticated", "Sign in to play matches");
+  }
+
+  const matchId = requireMatchId(request.data);
+  const { match, nowMs } = await recordHeartbeat(matchId, uid);
+  return { timestamp: nowMs, ...matchClock(match, nowMs) };
+});
+
+/**
+ * Rejoins a live match after a disconnect, e.g. an app restart. Returns the
+ * server-synced clock and everything needed to restore the match screen.
+ */
+export const rejoinMatch = onCall(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw new HttpsError("unauthenticated", "Sign in to play matches");
+  }
+
+  const matchId = requireMatchId(request.data);
+  const { match, nowMs } = await recordHeartbeat(matchId, uid);
+  const config = await getGameConfig(uid);
+  const clock = matchClock(match, nowMs);
+  const players = match.players;
+  const submission = readSubmission(await submissionRef(matchId, uid).get());
+
+  logger.info("player_rejoined", { match_id: matchId, user_id: uid });
+  return {
+    matchId,
+    timestamp: nowMs,
+    ...clock,
+    puzzleId: match.puzzle_id,
+    progress: submission.progress,
+    finishedAt: submission.finished_at?.toMillis() ?? null,
+    players: players.map((playerId) => {
+      const state = match.player_states[playerId] ?? {};
+      return {
+        playerId,
+        username: state.username ?? null,
+        avatar: state.avatar ?? null,
+        progress: state.progress ?? 0,
+        connection:
+          playerId === uid
+            ? "connected"
+            : connectionState(state, nowMs, clock.startAt, config),
+      };
+    }),
+  };
+});
@@ -0,0 +1,58 @@
+import { Puzzle } from "./puzzles";
+
+// Pure puzzle selection, free of Firestore access so it can be unit tested
+
+export const MIN_DIFFICULTY = 1;
+export const MAX_DIFFICULTY = 5;
+// Rating at which each difficulty tier above the first starts
+const DIFFICULTY_RATING_THRESHOLDS = [1000, 1150, 1300, 1500];
+
+/**
+ * Difficulty tier suited to a rating.
+ * @param {number} rating The rating
+ * @return {number} The difficulty tier
+ */
+export function difficultyForRating(rating: number): number {
+  const tier = DIFFICULTY_RATING_THRESHOLDS.filter((t) => rating >= t).length;
+  return MIN_DIFFICULTY + tier;
+}
+
+/**
+ * Picks a puzzle for a match: the tier closest to the players' average rating
+ * that has puzzles none of them played recently. If every puzzle was played
+ * recently, recency is ignored.
+ * @param {Puzzle[]} puzzles The enabled puzzles, at least one
+ * @param {Set<string>} recentlyPlayed Puzzle ids the players saw recently
+ * @param {number[]} ratings The players' ratings
+ * @param {function(): number} random Source of randomness in [0, 1)
+ * @return {string} The puzzle id
+ */
+export function pickPuzzleId(
+  puzzles: Puzzle[],
+  recentlyPlayed: Set<string>,
+  ratings: number[],
+  random: () => number = Math.random
+): string {
+  const averageRating =
+    ratings.reduce((sum, rating) => sum + rating, 0) / (ratings.length || 1);
+  const targetDifficulty = difficultyForRating(averageRating);
+
+  const unseen = puzzles.filter((puzzle) => !recentlyPlayed.has(puzzle.id));
+  const pool = unseen.length > 0 ? unseen : puzzles;
+
+  // Widen the tier until something is available
+  for (
+    let distance = 0;
+    distance <= MAX_DIFFICULTY - MIN_DIFFICULTY;
+    distance++
+  ) {
+    const candidates = pool.filter(
+      (puzzle) => Math.abs(puzzle.difficulty - targetDifficulty) === distance
+    );
+    if (candidates.length > 0) {
+      return candidates[Math.floor(random() * candidates.length)].id;
+    }
+  }
+
+  return pool[Math.floor(random() * pool.length)].id;
+}
@@ -0,0 +1,289 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import {
+  MAX_DIFFICULTY,
+  MIN_DIFFICULTY,
+  pickPuzzleId,
+} from "./puzzle_selection";
+import { hashSolution } from "./submissions";
+
+const db = admin.firestore();
+
+const CATALOG_CACHE_TTL_MS = 60 * 1000;
+// gRPC status code of a create that finds its document already there
+const ALREADY_EXISTS = 6;
+const RECENT_HISTORY_LIMIT = 20; // Recent history entries checked per player
+// Progress is reported as a percentage unless the puzzle defines its own
+const DEFAULT_PROGRESS_TOTAL = 100;
+// Classic levels that were hard-coded in matchmaking before the catalog
+const LEGACY_FIRST_LEVEL = 20;
+const LEGACY_LAST_LEVEL = 302;
+const LEGACY_DISABLED = ["cls:37", "cls:51"];
+// gRPC status of a query whose composite index is missing
+const FAILED_PRECONDITION = 9;
+
+export interface Puzzle {
+  id: string;
+  // Puzzle pack, the prefix of the id (e.g. "cls" for "cls:20")
+  pack: string;
+  difficulty: number;
+  enabled: boolean;
+  // Progress a player reports once the puzzle is solved
+  progressTotal: number;
+}
+
+let catalogCache: { puzzles: Puzzle[]; loadedAt: number } | null = null;
+
+/**
+ * Reads a catalog document.
+ * Document path: puzzles/{puzzleId}
+ * @param {admin.firestore.DocumentSnapshot} doc The puzzle document
+ * @return {Puzzle} The puzzle
+ */
+function toPuzzle(doc: admin.firestore.DocumentSnapshot): Puzzle {
+  const data = doc.data() ?? {};
+  const difficulty = Number.isInteger(data.difficulty)
+    ? Math.min(MAX_DIFFICULTY, Math.max(MIN_DIFFICULTY, data.difficulty))
+    : MIN_DIFFICULTY;
+  return {
+    id: doc.id,
+    pack: typeof data.pack === "string" ? data.pack : doc.id.split(":")[0],
+    difficulty,
+    // Puzzles are playable unless explicitly disabled
+    enabled: data.enabled !== false,
+    progressTotal:
+      typeof data.progress_total === "number" && data.progress_total > 0
+        ? data.progress_total
+        : DEFAULT_PROGRESS_TOTAL,
+  };
+}
+
+/**
+ * The classic levels, as matchmaking picked them before the catalog.
+ * @return {Puzzle[]} The classic levels, disabled ones included
+ */
+function legacyPuzzles(): Puzzle[] {
+  const puzzles: Puzzle[] = [];
+  for (let level = LEGACY_FIRST_LEVEL; level <= LEGACY_LAST_LEVEL; level++) {
+    const id = `cls:${level}`;
+    puzzles.push({
+      id,
+      pack: "cls",
+      difficulty: MIN_DIFFICULTY,
+      enabled: !LEGACY_DISABLED.includes(id),
+      progressTotal: DEFAULT_PROGRESS_TOTAL,
+    });
+  }
+  return puzzles;
+}
+
+/**
+ * Enabled puzzles from the catalog, cached per instance for a minute so
+ * matchmaking doesn't read the whole collection for every match. Until the
+ * catalog is seeded, these are the classic levels, whose finishes are only
+ * checked for timing.
+ * @return {Promise<Puzzle[]>} The enabled puzzles
+ */
+export async function loadPuzzleCatalog(): Promise<Puzzle[]> {
+  if (
+    catalogCache &&
+    Date.now() - catalogCache.loadedAt < CATALOG_CACHE_TTL_MS
+  ) {
+    return catalogCache.puzzles;
+  }
+
+  const snapshot = await db.collection("puzzles").get();
+  if (snapshot.empty) {
+    // Classic levels have no solutions to check, see submitMove
+    logger.error("puzzle_catalog_empty", {
+      fallback: "legacy_levels",
+      verification: "timing_only",
+    });
+  }
+  const puzzles = (
+    snapshot.empty ? legacyPuzzles() : snapshot.docs.map(toPuzzle)
+  ).filter((p) => p.enabled);
+  catalogCache = { puzzles, loadedAt: Date.now() };
+  return puzzles;
+}
+
+/**
+ * Checks that a puzzle exists in the catalog and is enabled.
+ * @param {string} puzzleId The puzzle id
+ * @return {Promise<boolean>} Whether the puzzle can be played
+ */
+export async function isPuzzlePlayable(puzzleId: string): Promise<boolean> {
+  const puzzles = await loadPuzzleCatalog();
+  return puzzles.some((puzzle) => puzzle.id === puzzleId);
+}
+
+/**
+ * Catalog entry of a puzzle, or undefined if it is missing or disabled.
+ * @param {string} puzzleId The puzzle id
+ * @return {Promise<Puzzle | undefined>} The puzzle
+ */
+export async function findPuzzle(
+  puzzleId: string
+): Promise<Puzzle | undefined> {
+  const puzzles = await loadPuzzleCatalog();
+  return puzzles.find((puzzle) => puzzle.id === puzzleId);
+}
+
+/**
+ * Puzzles the players saw in their most recent matches. Needs the
+ * `match_history` index on `player_id` and `completed_at` desc, see
+ * firestore.indexes.json.
+ * @param {string[]} playerIds The players
+ * @return {Promise<Set<string>>} Recently played puzzle ids
+ */
+async function recentPuzzleIds(playerIds: string[]): Promise<Set<string>> {
+  const snapshots = await Promise.all(
+    playerIds.map((playerId) =>
+      db
+        .collection("match_history")
+        .where("player_id", "==", playerId)
+        .orderBy("completed_at", "desc")
+        .limit(RECENT_HISTORY_LIMIT)
+        .get()
+    )
+  );
+
+  const seen = new Set<string>();
+  snapshots.forEach((snapshot) =>
+    snapshot.docs.forEach((doc) => {
+      const puzzleId = doc.data().puzzle_id;
+      if (puzzleId) seen.add(puzzleId);
+    })
+  );
+  return seen;
+}
+
+/**
+ * Picks a puzzle for a match from the catalog, avoiding puzzles the players
+ * played recently. See `pickPuzzleId`.
+ * @param {string[]} playerIds The players in the match
+ * @param {number[]} ratings The players' ratings
+ * @return {Promise<string>} The puzzle id
+ */
+export async function selectPuzzleId(
+  playerIds: string[],
+  ratings: number[]
+): Promise<string> {
+  const puzzles = await loadPuzzleCatalog();
+  if (puzzles.length === 0) {
+    throw new Error("Puzzle catalog has no enabled puzzles");
+  }
+
+  let seen = new Set<string>();
+  try {
+    seen = await recentPuzzleIds(playerIds);
+  } catch (error) {
+    // A missing index would turn recency off for good, so it fails loudly
+    if ((error as { code?: unknown }).code === FAILED_PRECONDITION) {
+      throw error;
+    }
+    logger.error("recent_puzzles_failed", {
+      players: playerIds,
+      error: String(error),
+    });
+  }
+
+  return pickPuzzleId(puzzles, seen, ratings);
+}
+
+/**
+ * One-off migration that seeds the catalog with the classic levels that used
+ * to be hard-coded in matchmaking (cls:20 to cls:302, with cls:37 and cls:51
+ * disabled). Solutions passed as `{solutions: {[puzzleId]: solution}}` are
+ * stored as `solution_hash`. `submitMove` rejects finishes of puzzles without
+ * one, so levels created without a solution stay disabled with
+ * `disabled_reason: "no_solution"` until a later call brings it. Existing
+ * catalog documents are otherwise left untouched; levels that could not be
+ * created for any other reason are logged and counted as `failed`.
+ * Restricted to users with the `admin` custom claim.
+ */
+export const seedPuzzleCatalog = onCall(async (request) => {
+  if (request.auth?.token.admin !== true) {
+    throw new HttpsError("permission-denied", "Admin only");
+  }
+
+  const solutions: unknown = request.data?.solutions ?? {};
+  if (
+    typeof solutions !== "object" ||
+    solutions === null ||
+    Object.values(solutions).some((solution) => typeof solution !== "string")
+  ) {
+    throw new HttpsError(
+      "invalid-argument",
+      "solutions must map puzzle ids to solutions"
+    );
+  }
+
+  const hashed = Object.entries(solutions as Record<string, string>);
+  const solved = new Set(hashed.map(([puzzleId]) => puzzleId));
+  const writer = db.bulkWriter();
+  let created = 0;
+  let unsolved = 0;
+  let failed = 0;
+
+  for (const puzzle of legacyPuzzles()) {
+    const missingSolution = puzzle.enabled && !solved.has(puzzle.id);
+    writer
+      .create(db.collection("puzzles").doc(puzzle.id), {
+        pack: puzzle.pack,
+        difficulty: puzzle.difficulty,
+        enabled: puzzle.enabled && !missingSolution,
+        ...(missingSolution && { disabled_reason: "no_solution" }),
+      })
+      .then(() => {
+        created++;
+        if (missingSolution) unsolved++;
+      })
+      .catch((error) => {
+        if (error.code === ALREADY_EXISTS) return; // Already in the catalog
+        failed++;
+        logger.error("puzzle_create_failed", {
+          puzzle_id: puzzle.id,
+          error: String(error),
+        });
+      });
+  }
+  // Creates go first, so a solution for a new level doesn't make them fail
+  await writer.flush();
+
+  const puzzleSnaps =
+    hashed.length > 0
+      ? await db.getAll(
+          ...hashed.map(([puzzleId]) => db.collection("puzzles").doc(puzzleId))
+        )
+      : [];
+  hashed.forEach(([, solution], index) => {
+    const snap = puzzleSnaps[index];
+    writer.set(
+      snap.ref,
+      {
+        solution_hash: hashSolution(solution),
+        // Only levels the seed itself held back are enabled
+        ...(snap.data()?.disabled_reason === "no_solution" && {
+          enabled: true,
+          disabled_reason: admin.firestore.FieldValue.delete(),
+        }),
+      },
+      { merge: true }
+    );
+  });
+  await writer.close();
+
+  catalogCache = null;
+  if (unsolved > 0) {
+    logger.warn("puzzles_without_solution", { disabled: unsolved });
+  }
+  logger.info("puzzle_catalog_seeded", {
+    created,
+    solutions: hashed.length,
+    unsolved,
+    failed,
+  });
+  return { created, solutions: hashed.length, unsolved, failed };
+});
@@ -0,0 +1,164 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { GameConfig, getGameConfig } from "./config";
+import { lobbySizeOf, matchQueuedUser } from "./match_making";
+import { QueueEntry, parseQueueEntry, tryParse } from "./schema";
+
+const db = admin.firestore();
+
+const SWEEP_LIMIT = 500;
+const FALLBACK_LIMIT = 100;
+
+/**
+ * Deletes documents with a BulkWriter, skipping any that changed since they
+ * were read.
+ * @param {admin.firestore.QueryDocumentSnapshot[]} docs The documents
+ * @return {Promise<number>} Number of documents deleted
+ */
+async function deleteUnchanged(
+  docs: admin.firestore.QueryDocumentSnapshot[]
+): Promise<number> {
+  const writer = db.bulkWriter();
+  // A changed document fails its precondition; that is not worth a retry
+  writer.onWriteError(() => false);
+
+  let deleted = 0;
+  const writes = docs.map((doc) =>
+    writer
+      .delete(doc.ref, { lastUpdateTime: doc.updateTime })
+      .then(() => deleted++)
+      .catch(() => undefined)
+  );
+  await writer.close();
+  await Promise.all(writes);
+  return deleted;
+}
+
+/**
+ * Whether a queued user waited long enough for a bot match or for a lobby
+ * to start with fewer players, but not past the queue TTL.
+ * @param {QueueEntry} entry The queue entry
+ * @param {number} waitedMs Time since the user joined
+ * @param {GameConfig} config The user's config
+ * @return {boolean} Whether a fallback is due
+ */
+function fallbackDue(
+  entry: QueueEntry,
+  waitedMs: number,
+  config: GameConfig
+): boolean {
+  const botDue =
+    config.bot_match_wait_seconds > 0 &&
+    waitedMs >= config.bot_match_wait_seconds * 1000;
+  const lobbyDue =
+    lobbySizeOf(entry) > 2 &&
+    waitedMs >= config.lobby_fill_timeout_seconds * 1000;
+  return waitedMs < config.queue_ttl_seconds * 1000 && (botDue || lobbyDue);
+}
+
+/**
+ * Re-runs matchmaking for queued users whose fallback is due, in case the
+ * matchWaitingUser task enqueued on join failed to enqueue or run.
+ * @return {Promise<number>} Number of users matchmaking ran for
+ */
+async function matchOverdueUsers(): Promise<number> {
+  const now = Date.now();
+
+  // Expired entries are deleted first, so these are mostly live waiters
+  const snapshot = await db
+    .collection("match_queue")
+    .orderBy("joined_at")
+    .limit(FALLBACK_LIMIT)
+    .get();
+
+  let attempted = 0;
+  for (const doc of snapshot.docs) {
+    const entry = tryParse(parseQueueEntry, doc.data());
+    if (!entry) continue;
+    // Experiments may give a user other wait times than the default
+    const userConfig = await getGameConfig(doc.id);
+    if (!fallbackDue(entry, now - entry.joined_at.toMillis(), userConfig)) {
+      continue;
+    }
+
+    attempted++;
+    try {
+      await matchQueuedUser(doc.id);
+    } catch (error) {
+      logger.error("matchmaking_failed", {
+        user_id: doc.id,
+        error: String(error),
+      });
+    }
+  }
+  return attempted;
+}
+
+/**
+ * Removes `match_queue` entries past the queue TTL and `recent_queue_joins`
+ * rate-limit records past the rate-limit window. Expired entries are already
+ * ignored by matchmaking; deleting them also clears their queue-join alerts
+ * and records the expiry in the queue metrics. Then starts the bot matches
+ * and short lobbies of users who waited long enough and are still waiting.
+ */
+export const sweepQueue = onSchedule("every 1 minutes", async () => {
+  const config = await getGameConfig();
+  const now = Date.now();
+
+  const queueSnapshot = await db
+    .collection("match_queue")
+    .where(
+      "joined_at",
+      "<",
+      admin.firestore.Timestamp.fromMillis(
+        now - config.queue_ttl_seconds * 1000
+      )
+    )
+    .orderBy("joined_at")
+    .limit(SWEEP_LIMIT)
+    .get();
+
+  // Experiments may give a user a longer TTL than the default
+  const expired: admin.firestore.QueryDocumentSnapshot[] = [];
+  for (const doc of queueSnapshot.docs) {
+    const userConfig = await getGameConfig(doc.id);
+    const joinedAtMs: number = doc.data().joined_at.toMillis();
+    if (joinedAtMs + userConfig.queue_ttl_seconds * 1000 <= now) {
+      expired.push(doc);
+    }
+  }
+
+  const rateLimitSnapshot = await db
+    .collection("recent_queue_joins")
+    .where(
+      "timestamp",
+      "<",
+      admin.firestore.Timestamp.fromMillis(
+        now - config.queue_join_rate_limit_ms
+      )
+    )
+    .limit(SWEEP_LIMIT)
+    .get();
+
+  const stale: admin.firestore.QueryDocumentSnapshot[] = [];
+  for (const doc of rateLimitSnapshot.docs) {
+    const userConfig = await getGameConfig(doc.id);
+    const lastJoinMs: number = doc.data().timestamp.toMillis();
+    if (lastJoinMs + userConfig.queue_join_rate_limit_ms <= now) {
+      stale.push(doc);
+    }
+  }
+
+  const queueDeleted = await deleteUnchanged(expired);
+  const rateLimitsDeleted = await deleteUnchanged(stale);
+
+  const fallbacksAttempted = await matchOverdueUsers();
+
+  logger.info("queue_sweep_completed", {
+    queue_checked: queueSnapshot.size,
+    queue_deleted: queueDeleted,
+    rate_limits_deleted: rateLimitsDeleted,
+    fallbacks_attempted: fallbacksAttempted,
+  });
+});
@@ -0,0 +1,91 @@
+import * as admin from "firebase-admin";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import { activeCooldown, penaltyRef } from "./abandonment";
+import { getGameConfig } from "./config";
+import { lobbySizeOf } from "./match_making";
+import { recentAverageDurationMs } from "./metrics";
+import { parseQueueEntry, tryParse } from "./schema";
+
+const db = admin.firestore();
+
+// Entries ahead of the caller beyond this are not counted individually
+const MAX_POSITION_SCAN = 500;
+
+/**
+ * Returns the caller's place in the matchmaking queue: position among
+ * players waiting for the same lobby size, estimated remaining wait and the
+ * time left before the entry expires. Times are server-side, as in
+ * `getServerTime`, so clients can correct for clock skew.
+ */
+export const getQueueStatus = onCall(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw new HttpsError("unauthenticated", "Sign in to view the queue");
+  }
+
+  const now = admin.firestore.Timestamp.now();
+  // A malformed entry is being rejected by matchmaking
+  const entry = tryParse(
+    parseQueueEntry,
+    (await db.collection("match_queue").doc(uid).get()).data()
+  );
+  const cooldownUntil = activeCooldown(await penaltyRef(uid).get(), now);
+  if (!entry) {
+    return {
+      timestamp: now.toMillis(),
+      inQueue: false,
+      cooldownUntil: cooldownUntil?.toMillis() ?? null,
+    };
+  }
+
+  const config = await getGameConfig(uid);
+  const joinedAt = entry.joined_at;
+  const waitedMs = now.toMillis() - joinedAt.toMillis();
+  const expiresAtMs = joinedAt.toMillis() + config.queue_ttl_seconds * 1000;
+  const lobbySize = lobbySizeOf(entry);
+
+  // Unexpired entries that joined earlier, in the same lobby size
+  const ahead = await db
+    .collection("match_queue")
+    .where(
+      "joined_at",
+      ">",
+      admin.firestore.Timestamp.fromMillis(
+        now.toMillis() - config.queue_ttl_seconds * 1000
+      )
+    )
+    .where("joined_at", "<", joinedAt)
+    .orderBy("joined_at")
+    .limit(MAX_POSITION_SCAN)
+    .get();
+  const position =
+    ahead.docs.filter((doc) => {
+      const other = tryParse(parseQueueEntry, doc.data());
+      return other && lobbySizeOf(other) === lobbySize;
+    }).length + 1;
+
+  // Recent average time to match, capped by the bot fallback
+  const averageWaitMs = await recentAverageDurationMs("match_created");
+  const remainingEstimates = [
+    ...(averageWaitMs !== null ? [averageWaitMs - waitedMs] : []),
+    ...(config.bot_match_wait_seconds > 0
+      ? [config.bot_match_wait_seconds * 1000 - waitedMs]
+      : []),
+  ];
+
+  return {
+    timestamp: now.toMillis(),
+    inQueue: true,
+    joinedAt: joinedAt.toMillis(),
+    lobbySize,
+    position,
+    waitedMs,
+    estimatedWaitMs:
+      remainingEstimates.length > 0
+        ? Math.max(0, Math.min(...remainingEstimates))
+        : null,
+    expiresAt: expiresAtMs,
+    remainingMs: Math.max(0, expiresAtMs - now.toMillis()),
+    cooldownUntil: cooldownUntil?.toMillis() ?? null,
+  };
+});
@@ -0,0 +1,94 @@
+import * as admin from "firebase-admin";
+
+const db = admin.firestore();
+
+export const DEFAULT_RATING = 1200;
+
+// Players are provisional (larger K) until they have played this many games
+const PROVISIONAL_GAMES = 20;
+const PROVISIONAL_K_FACTOR = 40;
+const K_FACTOR = 24;
+
+// Matchmaking window: starts narrow and widens the longer a player waits
+const RATING_WINDOW_BASE = 100;
+const RATING_WINDOW_GROWTH_PER_SECOND = 20;
+
+export interface PlayerRating {
+  rating: number;
+  games_played: number;
+}
+
+/**
+ * Reference to the rating document of a player.
+ * Document path: player_ratings/{userId}
+ * @param {string} userId The player id
+ * @return {admin.firestore.DocumentReference} The rating document reference
+ */
+export function ratingRef(userId: string): admin.firestore.DocumentReference {
+  return db.collection("player_ratings").doc(userId);
+}
+
+/**
+ * Reads a rating document, falling back to defaults for new players.
+ * @param {admin.firestore.DocumentSnapshot} snap The rating document snapshot
+ * @return {PlayerRating} The player's rating
+ */
+export function readRating(
+  snap: admin.firestore.DocumentSnapshot
+): PlayerRating {
+  const data = snap.exists ? snap.data() : undefined;
+  return {
+    rating: typeof data?.rating === "number" ? data.rating : DEFAULT_RATING,
+    games_played:
+      typeof data?.games_played === "number" ? data.games_played : 0,
+  };
+}
+
+/**
+ * Expected score (0..1) of a player against an opponent.
+ * @param {number} rating The player's rating
+ * @param {number} opponentRating The opponent's rating
+ * @return {number} The expected score
+ */
+export function expectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+}
+
+export interface RatingOpponent {
+  rating: number;
+  // 1 if the player placed above this opponent, 0.5 if tied, 0 if below
+  score: number;
+}
+
+/**
+ * Rating delta for a player after a single game. Multi-player lobbies are
+ * scored as head-to-head results against every opponent, averaged so a
+ * lobby moves a rating about as much as a single duel.
+ * @param {PlayerRating} player The player's rating before the game
+ * @param {RatingOpponent[]} opponents Opponent ratings and pairwise scores
+ * @return {number} The rounded rating change
+ */
+export function computeRatingChange(
+  player: PlayerRating,
+  opponents: RatingOpponent[]
+): number {
+  if (opponents.length === 0) return 0;
+  const k =
+    player.games_played < PROVISIONAL_GAMES ? PROVISIONAL_K_FACTOR : K_FACTOR;
+  const delta = opponents.reduce(
+    (sum, opponent) =>
+      sum + opponent.score - expectedScore(player.rating, opponent.rating),
+    0
+  );
+  return Math.round((k * delta) / opponents.length);
+}
+
+/**
+ * Maximum rating difference a player accepts after waiting `waitedMs`.
+ * @param {number} waitedMs How long the player has been in the queue
+ * @return {number} The accepted rating difference
+ */
+export function ratingWindow(waitedMs: number): number {
+  const waitedSeconds = Math.max(0, waitedMs) / 1000;
+  return RATING_WINDOW_BASE + waitedSeconds * RATING_WINDOW_GROWTH_PER_SECOND;
+}
@@ -0,0 +1,187 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import { requireMatchId } from "./presence";
+import { Match } from "./schema";
+
+const db = admin.firestore();
+
+// Events beyond this are dropped from the replay to stay within document size
+const MAX_REPLAY_EVENTS = 5000;
+
+export type MatchEventType = "progress" | "finish" | "rejected";
+
+export interface MatchEvent {
+  player_id: string;
+  type: MatchEventType;
+  progress: number | null;
+  elapsed_ms: number;
+  reason?: string | null;
+}
+
+interface ReplayTrack {
+  types: MatchEventType[];
+  elapsed_ms: number[];
+  progress: (number | null)[];
+}
+
+/**
+ * Append-only event log of a live match, written by the server only.
+ * Document path: matches/{matchId}/events/{eventId}
+ * @param {string} matchId The match id
+ * @return {admin.firestore.CollectionReference} The events collection
+ */
+function matchEventsRef(matchId: string): admin.firestore.CollectionReference {
+  return db.collection("matches").doc(matchId).collection("events");
+}
+
+/**
+ * Compacted replay of a finished match.
+ * Document path: match_replays/{matchId}
+ * @param {string} matchId The match id
+ * @return {admin.firestore.DocumentReference} The replay document reference
+ */
+export function replayRef(matchId: string): admin.firestore.DocumentReference {
+  return db.collection("match_replays").doc(matchId);
+}
+
+/**
+ * Appends an event to a match's log within a transaction, stamped with the
+ * server time.
+ * @param {admin.firestore.Transaction} tx The transaction
+ * @param {string} matchId The match id
+ * @param {MatchEvent} event The event
+ * @param {admin.firestore.Timestamp} at The server time of the event
+ */
+export function appendMatchEvent(
+  tx: admin.firestore.Transaction,
+  matchId: string,
+  event: MatchEvent,
+  at: admin.firestore.Timestamp
+): void {
+  tx.create(matchEventsRef(matchId).doc(), { ...event, at });
+}
+
+/**
+ * Compacts the event log of a match into its replay document, one track of
+ * parallel arrays per player, and deletes the log. Does nothing if the
+ * replay already exists, e.g. on a retried trigger.
+ * @param {string} matchId The match id
+ * @param {Match} match The match
+ * @return {Promise<boolean>} Whether a replay was written
+ */
+export async function compactReplay(
+  matchId: string,
+  match: Match
+): Promise<boolean> {
+  const eventsSnapshot = await matchEventsRef(matchId).orderBy("at").get();
+  const exists = (await replayRef(matchId).get()).exists;
+  if (exists) {
+    logger.info("replay_exists", { match_id: matchId });
+  } else {
+    const players = match.players;
+    const tracks: Record<string, ReplayTrack> = Object.fromEntries(
+      players.map((playerId) => [
+        playerId,
+        { types: [], elapsed_ms: [], progress: [] },
+      ])
+    );
+
+    const events = eventsSnapshot.docs.slice(0, MAX_REPLAY_EVENTS);
+    if (eventsSnapshot.size > events.length) {
+      logger.warn("replay_truncated", {
+        match_id: matchId,
+        events: eventsSnapshot.size,
+      });
+    }
+    for (const doc of events) {
+      const event = doc.data() as MatchEvent;
+      const track = tracks[event.player_id];
+      if (!track) continue;
+      track.types.push(event.type);
+      track.elapsed_ms.push(event.elapsed_ms);
+      track.progress.push(event.progress ?? null);
+    }
+
+    await replayRef(matchId).set({
+      match_id: matchId,
+      players,
+      puzzle_id: match.puzzle_id,
+      start_at: match.start_at,
+      max_duration: match.max_duration ?? null,
+      player_states: Object.fromEntries(
+        players.map((playerId) => {
+          const state = match.player_states[playerId] ?? {};
+          return [
+            playerId,
+            {
+              username: state.username ?? null,
+              avatar: state.avatar ?? null,
+              final_progress: state.progress ?? 0,
+              finished_at: state.finished_at ?? null,
+            },
+          ];
+        })
+      ),
+      tracks,
+      event_count: events.length,
+      created_at: admin.firestore.Timestamp.now(),
+    });
+  }
+
+  // The log outlives the match document otherwise
+  const writer = db.bulkWriter();
+  eventsSnapshot.docs.forEach((doc) => writer.delete(doc.ref));
+  await writer.close();
+
+  if (!exists) {
+    logger.info("replay_compacted", {
+      match_id: matchId,
+      events: eventsSnapshot.size,
+    });
+  }
+  return !exists;
+}
+
+/**
+ * Returns the replay of a finished match to one of its players, or to users
+ * with the `admin` custom claim for disputes.
+ */
+export const getReplay = onCall(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw new HttpsError("unauthenticated", "Sign in to view replays");
+  }
+
+  const matchId = requireMatchId(request.data);
+  const replay = await replayRef(matchId).get();
+  if (!replay.exists) {
+    throw new HttpsError("not-found", `No replay for match ${matchId}`);
+  }
+
+  const data = replay.data() ?? {};
+  const isPlayer = (data.players ?? []).includes(uid);
+  if (!isPlayer && request.auth?.token.admin !== true) {
+    throw new HttpsError("permission-denied", "Not a player in this match");
+  }
+
+  return {
+    matchId,
+    players: data.players,
+    puzzleId: data.puzzle_id,
+    startAt: data.start_at?.toMillis() ?? null,
+    maxDuration: data.max_duration,
+    playerStates: Object.fromEntries(
+      Object.entries(
+        (data.player_states ?? {}) as Record<
+          string,
+          admin.firestore.DocumentData
+        >
+      ).map(([playerId, state]) => [
+        playerId,
+        { ...state, finished_at: state.finished_at?.toMillis() ?? null },
+      ])
+    ),
+    tracks: data.tracks,
+  };
+});
@@ -0,0 +1,518 @@
+import * as admin from "firebase-admin";
+import { Delivery } from "./devices";
+import { ForfeitReason, PresenceState } from "./presence";
+import { MatchResult } from "./player_stats";
+import { VerificationStatus } from "./submissions";
+
+// Version stamped on documents written through the converters. Documents
+// without one are version 0 and are migrated when read.
+export const SCHEMA_VERSION = 1;
+
+type Data = admin.firestore.DocumentData;
+type Timestamp = admin.firestore.Timestamp;
+
+// Document path: match_queue/{userId}
+export interface QueueEntry {
+  joined_at: Timestamp;
+  username?: string | null;
+  avatar?: string | null;
+  lobby_size: number;
+  requeued_from_match?: string | null;
+  schema_version: number;
+}
+
+// Entry of a match's `player_states`, by player id
+export interface PlayerState extends PresenceState {
+  username?: string | null;
+  avatar?: string | null;
+  rating?: number;
+  progress?: number;
+  verification?: {
+    status?: VerificationStatus;
+    reason?: string | null;
+    elapsed_ms?: number;
+    checked_at?: Timestamp;
+  };
+  rejected_submissions?: number;
+  reconnects?: number;
+  is_bot?: boolean;
+}
+
+// Document path: matches/{matchId}
+export interface Match {
+  players: string[];
+  lobby_size: number;
+  start_at: Timestamp;
+  created_at?: Timestamp | null;
+  puzzle_id: string;
+  // Seconds
+  max_duration?: number;
+  player_states: Record<string, PlayerState>;
+  bot_ids?: string[];
+  has_bots?: boolean;
+  challenge_id?: string | null;
+  // Failed finalization attempts of the expiry sweeper
+  finalize_failures?: number;
+  schema_version: number;
+}
+
+export interface HistoryOpponent {
+  player_id: string;
+  username?: string | null;
+  avatar?: string | null;
+  progress: number;
+  finished_at: Timestamp | null;
+  placement: number;
+  is_bot?: boolean;
+}
+
+// Document path: match_history/{matchId}_{playerId}
+export interface MatchHistoryEntry {
+  match_id: string;
+  player_id: string;
+  opponent_id: string | null;
+  opponent_username?: string | null;
+  opponent_avatar?: string | null;
+  opponent_ids: string[];
+  opponents: HistoryOpponent[];
+  player_count: number;
+  placement: number;
+  puzzle_id: string;
+  result: MatchResult;
+  player_progress: number;
+  opponent_progress: number | null;
+  player_finished_at: Timestamp | null;
+  opponent_finished_at: Timestamp | null;
+  // Milliseconds
+  match_duration: number;
+  completed_at: Timestamp;
+  created_at: Timestamp;
+  rating_before: number;
+  rating_after: number;
+  rating_change: number;
+  forfeit_reason?: ForfeitReason | null;
+  replay_id?: string | null;
+  bot_match?: boolean;
+  season_id?: string | null;
+  suspicious?: boolean;
+  suspicious_reasons?: string[];
+  voided?: boolean;
+  moderation?: Data;
+  schema_version: number;
+}
+
+// Document path: clients/{deviceId}
+export interface Client {
+  user_id: string;
+  // Absent until the app obtained a token
+  fcm_token?: string | null;
+  platform?: string;
+  app_version?: string;
+  locale?: string | null;
+  utc_offset_minutes?: number;
+  notification_preferences: Record<string, Delivery>;
+  fcm_token_invalid?: boolean;
+  registered_at?: Timestamp;
+  last_seen_at?: Timestamp;
+  schema_version: number;
+}
+
+/**
+ * A document that does not match its model. `field` is the dotted path of
+ * the offending field.
+ */
+export class SchemaError extends Error {
+  /**
+   * @param {string} field The offending field
+   * @param {string} message What is wrong with it
+   */
+  constructor(readonly field: string, message: string) {
+    super(`${field}: ${message}`);
+    this.name = "SchemaError";
+  }
+}
+
+// Throws a SchemaError for a value that doesn't fit
+type Validator = (value: unknown, path: string) => void;
+// Upgrades a document from the version at its index to the next version
+type Migration = (data: Data) => Data;
+
+const isString = (v: unknown): boolean => typeof v === "string";
+const isNumber = (v: unknown): boolean =>
+  typeof v === "number" && Number.isFinite(v);
+const isBoolean = (v: unknown): boolean => typeof v === "boolean";
+const isTimestamp = (v: unknown): boolean =>
+  v instanceof admin.firestore.Timestamp;
+const isMap = (v: unknown): v is Data =>
+  typeof v === "object" && v !== null && !Array.isArray(v) && !isTimestamp(v);
+
+/**
+ * Validator of a single value.
+ * @param {function(unknown): boolean} check Whether a value fits
+ * @param {string} expected Description used in the error
+ * @return {Validator} The validator
+ */
+function is(check: (value: unknown) => boolean, expected: string): Validator {
+  return (value, path) => {
+    if (!check(value)) {
+      throw new SchemaError(path, `expected ${expected}`);
+    }
+  };
+}
+
+/**
+ * Validator that also accepts a missing or null value.
+ * @param {Validator} validator Validator of present values
+ * @return {Validator} The validator
+ */
+function optional(validator: Validator): Validator {
+  return (value, path) => {
+    if (value !== undefined && value !== null) validator(value, path);
+  };
+}
+
+/**
+ * Validator of a map with known fields; other fields are allowed.
+ * @param {Record<string, Validator>} fields Validators by field name
+ * @return {Validator} The validator
+ */
+function object(fields: Record<string, Validator>): Validator {
+  return (value, path) => {
+    if (!isMap(value)) throw new SchemaError(path, "expected a map");
+    for (const [name, validator] of Object.entries(fields)) {
+      validator(value[name], path ? `${path}.${name}` : name);
+    }
+  };
+}
+
+/**
+ * Validator of a map with arbitrary keys and uniform values.
+ * @param {Validator} values Validator of each value
+ * @return {Validator} The validator
+ */
+function recordOf(values: Validator): Validator {
+  return (value, path) => {
+    if (!isMap(value)) throw new SchemaError(path, "expected a map");
+    for (const [key, item] of Object.entries(value)) {
+      values(item, `${path}.${key}`);
+    }
+  };
+}
+
+/**
+ * Validator of an array with uniform items.
+ * @param {Validator} items Validator of each item
+ * @param {number} minLength Fewest items allowed
+ * @return {Validator} The validator
+ */
+function arrayOf(items: Validator, minLength = 0): Validator {
+  return (value, path) => {
+    if (!Array.isArray(value) || value.length < minLength) {
+      throw new SchemaError(
+        path,
+        `expected an array of at least ${minLength} items`
+      );
+    }
+    value.forEach((item, index) => items(item, `${path}.${index}`));
+  };
+}
+
+const string = is(isString, "a string");
+const number = is(isNumber, "a finite number");
+const boolean = is(isBoolean, "a boolean");
+const timestamp = is(isTimestamp, "a timestamp");
+const nonNegative = is(
+  (v) => isNumber(v) && (v as number) >= 0,
+  "a number of at least 0"
+);
+const positiveInteger = is(
+  (v) => Number.isInteger(v) && (v as number) >= 1,
+  "an integer of at least 1"
+);
+
+const QUEUE_ENTRY: Validator = object({
+  joined_at: timestamp,
+  username: optional(string),
+  avatar: optional(string),
+  // Clamped to the supported sizes by matchmaking
+  lobby_size: positiveInteger,
+  requeued_from_match: optional(string),
+});
+
+const PLAYER_STATE: Validator = object({
+  username: optional(string),
+  avatar: optional(string),
+  rating: optional(number),
+  progress: optional(nonNegative),
+  finished_at: optional(timestamp),
+  quit_at: optional(timestamp),
+  last_heartbeat_at: optional(timestamp),
+  disconnected_at: optional(timestamp),
+  forfeited_at: optional(timestamp),
+  // Written by the server, which never stores invalid_state
+  forfeit_reason: optional(
+    is((v) => v === "quit" || v === "disconnect", "quit or disconnect")
+  ),
+  verification: optional(object({ status: optional(string) })),
+  rejected_submissions: optional(nonNegative),
+  reconnects: optional(nonNegative),
+  is_bot: optional(boolean),
+});
+
+const MATCH: Validator = object({
+  players: arrayOf(string, 1),
+  lobby_size: positiveInteger,
+  start_at: timestamp,
+  created_at: optional(timestamp),
+  puzzle_id: string,
+  max_duration: optional(nonNegative),
+  // Entries are checked one by one, see invalidPlayerStates
+  player_states: is(isMap, "a map"),
+  bot_ids: optional(arrayOf(string)),
+  has_bots: optional(boolean),
+  challenge_id: optional(string),
+  finalize_failures: optional(nonNegative),
+});
+
+const HISTORY_ENTRY: Validator = object({
+  match_id: string,
+  player_id: string,
+  opponent_id: optional(string),
+  opponent_ids: arrayOf(string),
+  opponents: arrayOf(
+    object({
+      player_id: string,
+      progress: nonNegative,
+      finished_at: optional(timestamp),
+      placement: positiveInteger,
+      is_bot: optional(boolean),
+    })
+  ),
+  player_count: positiveInteger,
+  placement: positiveInteger,
+  puzzle_id: string,
+  result: is(
+    (v) => v === "win" || v === "loss" || v === "draw",
+    "win, loss or draw"
+  ),
+  player_progress: nonNegative,
+  opponent_progress: optional(nonNegative),
+  player_finished_at: optional(timestamp),
+  opponent_finished_at: optional(timestamp),
+  match_duration: nonNegative,
+  completed_at: timestamp,
+  created_at: timestamp,
+  rating_before: number,
+  rating_after: number,
+  rating_change: number,
+  season_id: optional(string),
+  voided: optional(boolean),
+});
+
+const CLIENT: Validator = object({
+  user_id: string,
+  fcm_token: optional(string),
+  platform: optional(string),
+  locale: optional(string),
+  utc_offset_minutes: optional(number),
+  notification_preferences: recordOf(
+    is(
+      (v) => v === "all" || v === "foreground" || v === "off",
+      "all, foreground or off"
+    )
+  ),
+  fcm_token_invalid: optional(boolean),
+  registered_at: optional(timestamp),
+  last_seen_at: optional(timestamp),
+});
+
+const QUEUE_ENTRY_MIGRATIONS: Migration[] = [
+  // 0 -> 1: lobby sizes were introduced with head-to-head as the default
+  (data) => ({ lobby_size: 2, ...data }),
+];
+
+const MATCH_MIGRATIONS: Migration[] = [
+  // 0 -> 1: head-to-head matches had no lobby size
+  (data) => ({
+    lobby_size: Array.isArray(data.players) ? data.players.length : 2,
+    player_states: {},
+    ...data,
+  }),
+];
+
+const HISTORY_MIGRATIONS: Migration[] = [
+  // 0 -> 1: head-to-head entries only had the single-opponent fields
+  (data) => ({
+    opponent_ids: data.opponent_id ? [data.opponent_id] : [],
+    opponents: [],
+    player_count: 2,
+    placement: data.result === "loss" ? 2 : 1,
+    ...data,
+  }),
+];
+
+const CLIENT_MIGRATIONS: Migration[] = [
+  // 0 -> 1: queue-join alerts were configured with two booleans
+  (data) => {
+    const {
+      notify_background_queue_joins: notifyAll,
+      notify_foreground_queue_joins: notifyForeground,
+      ...rest
+    } = data;
+    const legacy: Delivery =
+      notifyAll !== false
+        ? "all"
+        : notifyForeground !== false
+        ? "foreground"
+        : "off";
+    return {
+      ...rest,
+      notification_preferences: {
+        challenge_alert: legacy,
+        ...(rest.notification_preferences ?? {}),
+      },
+    };
+  },
+];
+
+/**
+ * Migrates a document to the current schema version and validates it.
+ * @param {Data | undefined} data The stored document data
+ * @param {Migration[]} migrations Migrations by source version
+ * @param {Validator} validator Validator of the current version
+ * @return {Data} The migrated data, stamped with the current version
+ */
+function parse(
+  data: Data | undefined,
+  migrations: Migration[],
+  validator: Validator
+): Data {
+  if (!isMap(data)) throw new SchemaError("", "document has no data");
+  let version = data.schema_version ?? 0;
+  if (!Number.isInteger(version) || version < 0) {
+    throw new SchemaError("schema_version", "expected an integer");
+  }
+  if (version > SCHEMA_VERSION) {
+    throw new SchemaError(
+      "schema_version",
+      `version ${version} is newer than ${SCHEMA_VERSION}`
+    );
+  }
+
+  let migrated = data;
+  for (; version < SCHEMA_VERSION; version++) {
+    migrated = migrations[version](migrated);
+  }
+  validator(migrated, "");
+  return { ...migrated, schema_version: SCHEMA_VERSION };
+}
+
+/**
+ * Reads a queue entry.
+ * @param {Data | undefined} data The document data
+ * @return {QueueEntry} The entry
+ */
+export function parseQueueEntry(data: Data | undefined): QueueEntry {
+  return parse(data, QUEUE_ENTRY_MIGRATIONS, QUEUE_ENTRY) as QueueEntry;
+}
+
+/**
+ * Malformed entries of a match's `player_states`. A bad entry only concerns
+ * its own player, so it doesn't make the whole match invalid.
+ * @param {Data | undefined} data The match document data
+ * @return {Map<string, SchemaError>} Errors by player id
+ */
+export function invalidPlayerStates(
+  data: Data | undefined
+): Map<string, SchemaError> {
+  const invalid = new Map<string, SchemaError>();
+  const validate: Validator = PLAYER_STATE;
+  const states =
+    isMap(data) && isMap(data.player_states) ? data.player_states : {};
+  for (const [playerId, state] of Object.entries(states)) {
+    try {
+      validate(state, `player_states.${playerId}`);
+    } catch (error) {
+      if (!(error instanceof SchemaError)) throw error;
+      invalid.set(playerId, error);
+    }
+  }
+  return invalid;
+}
+
+/**
+ * Reads a match. Malformed `player_states` entries are left out; see
+ * invalidPlayerStates for which ones.
+ * @param {Data | undefined} data The document data
+ * @return {Match} The match
+ */
+export function parseMatch(data: Data | undefined): Match {
+  const match = parse(data, MATCH_MIGRATIONS, MATCH) as Match;
+  const invalid = invalidPlayerStates(match);
+  if (invalid.size === 0) return match;
+  return {
+    ...match,
+    player_states: Object.fromEntries(
+      Object.entries(match.player_states).filter(
+        ([playerId]) => !invalid.has(playerId)
+      )
+    ),
+  };
+}
+
+/**
+ * Reads a match history entry.
+ * @param {Data | undefined} data The document data
+ * @return {MatchHistoryEntry} The entry
+ */
+export function parseHistoryEntry(data: Data | undefined): MatchHistoryEntry {
+  return parse(data, HISTORY_MIGRATIONS, HISTORY_ENTRY) as MatchHistoryEntry;
+}
+
+/**
+ * Reads a client registration.
+ * @param {Data | undefined} data The document data
+ * @return {Client} The client
+ */
+export function parseClient(data: Data | undefined): Client {
+  return parse(data, CLIENT_MIGRATIONS, CLIENT) as Client;
+}
+
+/**
+ * Parses a document, returning null instead of throwing for one that does
+ * not match its model.
+ * @param {function(Data): T} parser The parse function of the model
+ * @param {Data | undefined} data The document data
+ * @return {T | null} The model, null when invalid
+ */
+export function tryParse<T>(
+  parser: (data: Data | undefined) => T,
+  data: Data | undefined
+): T | null {
+  try {
+    return parser(data);
+  } catch (error) {
+    if (error instanceof SchemaError) return null;
+    throw error;
+  }
+}
+
+/**
+ * Firestore converter that validates on read and stamps the schema version
+ * on write. Reading an invalid document throws a SchemaError.
+ * @param {function(Data): T} parser The parse function of the model
+ * @return {admin.firestore.FirestoreDataConverter<T>} The converter
+ */
+function converter<T extends { schema_version: number }>(
+  parser: (data: Data | undefined) => T
+): admin.firestore.FirestoreDataConverter<T> {
+  return {
+    toFirestore: (model) => ({ ...model, schema_version: SCHEMA_VERSION }),
+    fromFirestore: (snapshot) => parser(snapshot.data()),
+  };
+}
+
+export const queueEntryConverter = converter(parseQueueEntry);
+export const matchConverter = converter(parseMatch);
+export const historyConverter = converter(parseHistoryEntry);
+export const clientConverter = converter(parseClient);
@@ -0,0 +1,510 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { MatchResult, POINTS } from "./player_stats";
+import { DEFAULT_RATING } from "./ratings";
+
+const db = admin.firestore();
+
+const SEASON_CACHE_TTL_MS = 60 * 1000;
+// Late finalizations (expiry sweeper) still land before standings are frozen
+const SEASON_CLOSE_DELAY_MS = 10 * 60 * 1000;
+const DEFAULT_SEASON_DAYS = 28;
+// Share of the distance to the default rating kept by a soft reset
+const SOFT_RESET_FACTOR = 0.5;
+// Season games needed for a reward
+const MIN_REWARD_GAMES = 5;
+const STANDINGS_PAGE_SIZE = 400;
+const ARCHIVED_TOP_STANDINGS = 100;
+
+export type SeasonStatus = "scheduled" | "active" | "archived" | "ended";
+export type RankTier = "bronze" | "silver" | "gold" | "platinum" | "diamond";
+
+// Lowest rating of each tier, best first
+const RANK_TIERS: [RankTier, number][] = [
+  ["diamond", 1700],
+  ["platinum", 1500],
+  ["gold", 1300],
+  ["silver", 1100],
+  ["bronze", -Infinity],
+];
+
+export interface Season {
+  id: string;
+  name: string;
+  startAt: admin.firestore.Timestamp;
+  endAt: admin.firestore.Timestamp;
+  status: SeasonStatus;
+}
+
+let seasonsCache: { seasons: Season[]; loadedAt: number } | null = null;
+
+/**
+ * Reference to a season document.
+ * Document path: seasons/{seasonId}
+ * @param {string} seasonId The season id
+ * @return {admin.firestore.DocumentReference} The season document reference
+ */
+function seasonRef(seasonId: string): admin.firestore.DocumentReference {
+  return db.collection("seasons").doc(seasonId);
+}
+
+/**
+ * Reference to a player's standing in a season.
+ * Document path: seasons/{seasonId}/standings/{userId}
+ * @param {string} seasonId The season id
+ * @param {string} userId The player id
+ * @return {admin.firestore.DocumentReference} The standing document reference
+ */
+export function standingRef(
+  seasonId: string,
+  userId: string
+): admin.firestore.DocumentReference {
+  return seasonRef(seasonId).collection("standings").doc(userId);
+}
+
+/**
+ * Reads a season document.
+ * @param {admin.firestore.DocumentSnapshot} doc The season document
+ * @return {Season} The season
+ */
+function toSeason(doc: admin.firestore.DocumentSnapshot): Season {
+  const data = doc.data() ?? {};
+  return {
+    id: doc.id,
+    name: data.name ?? doc.id,
+    startAt: data.start_at,
+    endAt: data.end_at,
+    status: data.status ?? "scheduled",
+  };
+}
+
+/**
+ * Rank tier of a rating.
+ * @param {number} rating The rating
+ * @return {RankTier} The tier
+ */
+export function rankTier(rating: number): RankTier {
+  return (RANK_TIERS.find(([, min]) => rating >= min) ?? RANK_TIERS[4])[0];
+}
+
+/**
+ * Seasons that are not over yet, cached per instance for a minute.
+ * @return {Promise<Season[]>} Scheduled and active seasons
+ */
+async function loadOpenSeasons(): Promise<Season[]> {
+  if (
+    seasonsCache &&
+    Date.now() - seasonsCache.loadedAt < SEASON_CACHE_TTL_MS
+  ) {
+    return seasonsCache.seasons;
+  }
+
+  const snapshot = await db
+    .collection("seasons")
+    .where("status", "in", ["scheduled", "active"])
+    .get();
+  const seasons = snapshot.docs.map(toSeason);
+  seasonsCache = { seasons, loadedAt: Date.now() };
+  return seasons;
+}
+
+/**
+ * Season a match completed in, by its dates rather than its status so
+ * results are attributed correctly around a rollover.
+ * @param {admin.firestore.Timestamp} at The completion time
+ * @return {Promise<Season | null>} The season, null between seasons
+ */
+export async function seasonAt(
+  at: admin.firestore.Timestamp
+): Promise<Season | null> {
+  const seasons = await loadOpenSeasons();
+  return (
+    seasons.find(
+      (season) =>
+        season.startAt.toMillis() <= at.toMillis() &&
+        at.toMillis() < season.endAt.toMillis()
+    ) ?? null
+  );
+}
+
+/**
+ * Adds a player's result to their season standing. The tier follows the
+ * rating after the match.
+ * @param {admin.firestore.Transaction} tx The running transaction
+ * @param {string} seasonId The season id
+ * @param {string} playerId The player id
+ * @param {MatchResult} result The player's result
+ * @param {number} ratingAfter The player's rating after the match
+ * @param {object} profile Display fields copied onto the standing
+ * @param {admin.firestore.Timestamp} completedAt When the match completed
+ */
+export function updateSeasonStanding(
+  tx: admin.firestore.Transaction,
+  seasonId: string,
+  playerId: string,
+  result: MatchResult,
+  ratingAfter: number,
+  profile: { username?: string | null; avatar?: string | null },
+  completedAt: admin.firestore.Timestamp
+): void {
+  const increment = admin.firestore.FieldValue.increment;
+  tx.set(
+    standingRef(seasonId, playerId),
+    {
+      user_id: playerId,
+      username: profile.username ?? null,
+      avatar: profile.avatar ?? null,
+      wins: increment(result === "win" ? 1 : 0),
+      losses: increment(result === "loss" ? 1 : 0),
+      draws: increment(result === "draw" ? 1 : 0),
+      games_played: increment(1),
+      points: increment(POINTS[result]),
+      rating: ratingAfter,
+      tier: rankTier(ratingAfter),
+      updated_at: completedAt,
+    },
+    { merge: true }
+  );
+}
+
+/**
+ * Moves a player's result in a season standing from the recorded result to
+ * the corrected one, or removes it for a voided match.
+ * @param {admin.firestore.Transaction} tx The running transaction
+ * @param {string} seasonId The season id
+ * @param {string} playerId The player id
+ * @param {MatchResult} before The recorded result
+ * @param {MatchResult | null} after The new result, null when voided
+ * @param {number} rating The player's corrected current rating
+ */
+export function correctSeasonStanding(
+  tx: admin.firestore.Transaction,
+  seasonId: string,
+  playerId: string,
+  before: MatchResult,
+  after: MatchResult | null,
+  rating: number
+): void {
+  const increment = admin.firestore.FieldValue.increment;
+  const count = (result: MatchResult) =>
+    increment((after === result ? 1 : 0) - (before === result ? 1 : 0));
+  tx.set(
+    standingRef(seasonId, playerId),
+    {
+      wins: count("win"),
+      losses: count("loss"),
+      draws: count("draw"),
+      games_played: increment(after === null ? -1 : 0),
+      points: increment((after ? POINTS[after] : 0) - POINTS[before]),
+      rating,
+      tier: rankTier(rating),
+      updated_at: admin.firestore.Timestamp.now(),
+    },
+    { merge: true }
+  );
+}
+
+/**
+ * Makes sure a season follows the given one, creating one of the same length
+ * starting at its end when none was scheduled.
+ * @param {Season} season The ending season
+ * @return {Promise<string>} The id of the following season
+ */
+async function ensureNextSeason(season: Season): Promise<string> {
+  const next = await db
+    .collection("seasons")
+    .where("start_at", ">=", season.endAt)
+    .orderBy("start_at")
+    .limit(1)
+    .get();
+  if (!next.empty) return next.docs[0].id;
+
+  const lengthMs = season.endAt.toMillis() - season.startAt.toMillis();
+  const startAt = season.endAt;
+  const endAt = admin.firestore.Timestamp.fromMillis(
+    startAt.toMillis() +
+      (lengthMs > 0 ? lengthMs : DEFAULT_SEASON_DAYS * 24 * 60 * 60 * 1000)
+  );
+  const seasonId = `season-${startAt.toDate().toISOString().slice(0, 10)}`;
+
+  await seasonRef(seasonId).set({
+    name: seasonId,
+    start_at: startAt,
+    end_at: endAt,
+    status: "scheduled" as SeasonStatus,
+    created_at: admin.firestore.Timestamp.now(),
+  });
+  logger.info("season_scheduled", {
+    season_id: seasonId,
+    previous_season_id: season.id,
+  });
+  return seasonId;
+}
+
+/**
+ * Freezes the final standings of a season: every standing gets its final
+ * rank and tier, players with enough games get a reward record, and the top
+ * of the table is archived on the season document. Safe to re-run.
+ * @param {Season} season The ended season
+ * @return {Promise<number>} Number of rewards granted
+ */
+async function archiveStandings(season: Season): Promise<number> {
+  const now = admin.firestore.Timestamp.now();
+  const top: admin.firestore.DocumentData[] = [];
+  let rank = 0;
+  let rewards = 0;
+  let lastDoc: admin.firestore.QueryDocumentSnapshot | undefined;
+
+  for (;;) {
+    let query = seasonRef(season.id)
+      .collection("standings")
+      .orderBy("rating", "desc")
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .limit(STANDINGS_PAGE_SIZE);
+    if (lastDoc) {
+      query = query.startAfter(lastDoc);
+    }
+
+    const page = await query.get();
+    if (page.empty) break;
+    lastDoc = page.docs[page.docs.length - 1];
+
+    const writer = db.bulkWriter();
+    for (const doc of page.docs) {
+      rank++;
+      const standing = doc.data();
+      const tier = rankTier(standing.rating ?? DEFAULT_RATING);
+      writer.update(doc.ref, { final_rank: rank, final_tier: tier });
+
+      if (top.length < ARCHIVED_TOP_STANDINGS) {
+        top.push({
+          user_id: doc.id,
+          username: standing.username ?? null,
+          rating: standing.rating,
+          tier,
+          rank,
+        });
+      }
+
+      if ((standing.games_played ?? 0) >= MIN_REWARD_GAMES) {
+        writer.set(
+          db.collection("season_rewards").doc(`${season.id}_${doc.id}`),
+          {
+            season_id: season.id,
+            user_id: doc.id,
+            tier,
+            rank,
+            reward: `season_${tier}`,
+            granted_at: now,
+            claimed: false,
+          }
+        );
+        rewards++;
+      }
+    }
+    await writer.close();
+  }
+
+  await seasonRef(season.id).update({
+    status: "archived" as SeasonStatus,
+    final_standings: top,
+    player_count: rank,
+    rewards_granted: rewards,
+    archived_at: now,
+  });
+  return rewards;
+}
+
+/**
+ * Pulls every rating halfway back to the default rating. Pages run in
+ * transactions so concurrent match results aren't overwritten, and the
+ * cursor is stored on the season so an interrupted reset resumes instead of
+ * resetting some players twice.
+ * @param {Season} season The ended season
+ * @return {Promise<number>} Number of ratings reset in this run
+ */
+async function softResetRatings(season: Season): Promise<number> {
+  let reset = 0;
+
+  for (;;) {
+    const pageSize = await db.runTransaction(async (tx) => {
+      const seasonDoc = await tx.get(seasonRef(season.id));
+      const cursor: string | undefined = seasonDoc.data()?.reset_cursor;
+
+      let query = db
+        .collection("player_ratings")
+        .orderBy(admin.firestore.FieldPath.documentId())
+        .limit(STANDINGS_PAGE_SIZE);
+      if (cursor) {
+        query = query.startAfter(cursor);
+      }
+      const page = await tx.get(query);
+      if (page.empty) return 0;
+
+      for (const doc of page.docs) {
+        const rating: number = doc.data().rating ?? DEFAULT_RATING;
+        tx.update(doc.ref, {
+          rating: Math.round(
+            DEFAULT_RATING + (rating - DEFAULT_RATING) * SOFT_RESET_FACTOR
+          ),
+          season_reset_at: admin.firestore.Timestamp.now(),
+        });
+      }
+      tx.update(seasonDoc.ref, {
+        reset_cursor: page.docs[page.docs.length - 1].id,
+      });
+      return page.size;
+    });
+
+    if (pageSize === 0) break;
+    reset += pageSize;
+  }
+
+  await seasonRef(season.id).update({
+    status: "ended" as SeasonStatus,
+    ended_at: admin.firestore.Timestamp.now(),
+  });
+  return reset;
+}
+
+/**
+ * Rolls seasons over: activates scheduled seasons that started, and for a
+ * season past its end schedules the next one, archives the final standings
+ * with rewards and soft-resets ratings. Each step records its progress on
+ * the season document, so a failed run picks up where it stopped.
+ */
+export const rolloverSeasons = onSchedule("every 15 minutes", async () => {
+  const now = admin.firestore.Timestamp.now();
+  const snapshot = await db
+    .collection("seasons")
+    .where("status", "in", ["scheduled", "active", "archived"])
+    .get();
+
+  for (const season of snapshot.docs.map(toSeason)) {
+    try {
+      if (
+        season.status === "scheduled" &&
+        season.startAt.toMillis() <= now.toMillis() &&
+        now.toMillis() < season.endAt.toMillis()
+      ) {
+        await seasonRef(season.id).update({ status: "active" });
+        logger.info("season_started", { season_id: season.id });
+        continue;
+      }
+
+      if (now.toMillis() < season.endAt.toMillis() + SEASON_CLOSE_DELAY_MS) {
+        continue;
+      }
+
+      if (season.status !== "archived") {
+        await ensureNextSeason(season);
+        const rewards = await archiveStandings(season);
+        logger.info("season_archived", { season_id: season.id, rewards });
+      }
+      const reset = await softResetRatings(season);
+      logger.info("season_ended", {
+        season_id: season.id,
+        ratings_reset: reset,
+      });
+    } catch (error) {
+      logger.error("season_rollover_failed", {
+        season_id: season.id,
+        error: String(error),
+      });
+    }
+  }
+  seasonsCache = null;
+});
+
+/**
+ * Schedules a season. Seasons may not overlap; without one scheduled, the
+ * rollover continues with seasons of the same length.
+ * Restricted to users with the `admin` custom claim.
+ */
+export const scheduleSeason = onCall(async (request) => {
+  if (request.auth?.token.admin !== true) {
+    throw new HttpsError("permission-denied", "Admin only");
+  }
+
+  const { seasonId, name, startAt, endAt } = request.data ?? {};
+  if (typeof seasonId !== "string" || !/^[\w-]{1,64}$/.test(seasonId)) {
+    throw new HttpsError("invalid-argument", "Invalid seasonId");
+  }
+  if (
+    !Number.isFinite(startAt) ||
+    !Number.isFinite(endAt) ||
+    endAt <= startAt
+  ) {
+    throw new HttpsError(
+      "invalid-argument",
+      "startAt and endAt must be millisecond timestamps, startAt first"
+    );
+  }
+
+  const overlapping = await db
+    .collection("seasons")
+    .where("end_at", ">", admin.firestore.Timestamp.fromMillis(startAt))
+    .get();
+  const conflict = overlapping.docs
+    .map(toSeason)
+    .find(
+      (season) => season.id !== seasonId && season.startAt.toMillis() < endAt
+    );
+  if (conflict) {
+    throw new HttpsError(
+      "already-exists",
+      `Season overlaps with ${conflict.id}`
+    );
+  }
+
+  await seasonRef(seasonId).set({
+    name: typeof name === "string" ? name : seasonId,
+    start_at: admin.firestore.Timestamp.fromMillis(startAt),
+    end_at: admin.firestore.Timestamp.fromMillis(endAt),
+    status: "scheduled" as SeasonStatus,
+    created_at: admin.firestore.Timestamp.now(),
+  });
+  seasonsCache = null;
+  return { seasonId };
+});
+
+/**
+ * Returns the caller's standing and tier in a season, the current one by
+ * default.
+ */
+export const getSeasonStanding = onCall(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw new HttpsError("unauthenticated", "Sign in to view seasons");
+  }
+
+  const requestedId = request.data?.seasonId;
+  const season =
+    typeof requestedId === "string"
+      ? await seasonRef(requestedId)
+          .get()
+          .then((doc) => (doc.exists ? toSeason(doc) : null))
+      : await seasonAt(admin.firestore.Timestamp.now());
+  if (!season) {
+    throw new HttpsError("not-found", "No such season");
+  }
+
+  const standing = (await standingRef(season.id, uid).get()).data();
+  return {
+    seasonId: season.id,
+    name: season.name,
+    startAt: season.startAt.toMillis(),
+    endAt: season.endAt.toMillis(),
+    status: season.status,
+    tier: standing?.final_tier ?? standing?.tier ?? null,
+    rank: standing?.final_rank ?? null,
+    rating: standing?.rating ?? null,
+    wins: standing?.wins ?? 0,
+    losses: standing?.losses ?? 0,
+    draws: standing?.draws ?? 0,
+    gamesPlayed: standing?.games_played ?? 0,
+    points: standing?.points ?? 0,
+  };
+});
@@ -0,0 +1,304 @@
+import * as admin from "firebase-admin";
+import { createHash } from "crypto";
+import * as logger from "firebase-functions/logger";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import { BotPlan } from "./bots";
+import { matchRef, requireMatch } from "./matches";
+import { appendMatchEvent } from "./replays";
+
+const db = admin.firestore();
+
+// Fastest solve accepted when the puzzle document does not define its own
+const DEFAULT_MIN_SOLVE_MS = 3000;
+// Allowance for network latency after max_duration elapsed
+const SUBMISSION_GRACE_MS = 2000;
+
+export type VerificationStatus = "verified" | "rejected";
+
+export interface Verification {
+  status: VerificationStatus;
+  reason: string | null;
+  elapsed_ms: number;
+  checked_at: admin.firestore.Timestamp;
+}
+
+// What the server accepted from a player in a match. Unlike the match's
+// `player_states`, clients cannot write it, so results are resolved from it.
+export interface Submission {
+  progress: number;
+  finished_at: admin.firestore.Timestamp | null;
+  verification: Verification | null;
+  rejected_submissions: number;
+  // Set for bots when the match is created
+  bot_plan: BotPlan | null;
+}
+
+interface SubmitMoveRequest {
+  matchId?: unknown;
+  progress?: unknown;
+  solution?: unknown;
+}
+
+/**
+ * Hashes a submitted solution the same way `puzzles/{id}.solution_hash` is stored.
+ * @param {string} solution The raw solution string
+ * @return {string} Hex encoded sha256 of the solution
+ */
+export function hashSolution(solution: string): string {
+  return createHash("sha256").update(solution.trim()).digest("hex");
+}
+
+/**
+ * Reference to the submission record of a player in a match.
+ * Document path: match_submissions/{matchId}_{playerId}
+ * @param {string} matchId The match id
+ * @param {string} playerId The player id
+ * @return {admin.firestore.DocumentReference} The submission reference
+ */
+export function submissionRef(
+  matchId: string,
+  playerId: string
+): admin.firestore.DocumentReference {
+  return db.collection("match_submissions").doc(`${matchId}_${playerId}`);
+}
+
+/**
+ * Reads a submission record, empty for a player who submitted nothing.
+ * @param {admin.firestore.DocumentSnapshot} snap The submission snapshot
+ * @return {Submission} The submission
+ */
+export function readSubmission(
+  snap: admin.firestore.DocumentSnapshot
+): Submission {
+  const data = snap.exists ? snap.data() : undefined;
+  return {
+    progress: typeof data?.progress === "number" ? data.progress : 0,
+    finished_at: data?.finished_at ?? null,
+    verification: data?.verification ?? null,
+    rejected_submissions:
+      typeof data?.rejected_submissions === "number"
+        ? data.rejected_submissions
+        : 0,
+    bot_plan: data?.bot_plan ?? null,
+  };
+}
+
+/**
+ * Submission records of the players of a match.
+ * @param {string} matchId The match id
+ * @param {string[]} playerIds The players
+ * @return {Promise<Map<string, Submission>>} Submissions by player id
+ */
+export async function readSubmissions(
+  matchId: string,
+  playerIds: string[]
+): Promise<Map<string, Submission>> {
+  if (playerIds.length === 0) return new Map();
+  const snaps = await db.getAll(
+    ...playerIds.map((playerId) => submissionRef(matchId, playerId))
+  );
+  return new Map(
+    playerIds.map((playerId, index) => [playerId, readSubmission(snaps[index])])
+  );
+}
+
+/**
+ * Callable used by clients to report progress and submit a solution.
+ * The server stamps `finished_at` itself and keeps progress, finish and the
+ * verification result in the caller's `match_submissions` record, which the
+ * history writer resolves the match from. The caller's `player_states` entry
+ * gets a copy for opponents to display.
+ */
+export const submitMove = onCall(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw new HttpsError("unauthenticated", "Sign in to submit moves");
+  }
+
+  const { matchId, progress, solution } = (request.data ??
+    {}) as SubmitMoveRequest;
+
+  if (typeof matchId !== "string" || matchId.length === 0) {
+    throw new HttpsError("invalid-argument", "matchId is required");
+  }
+  if (
+    progress !== undefined &&
+    (typeof progress !== "number" || !Number.isFinite(progress) || progress < 0)
+  ) {
+    throw new HttpsError("invalid-argument", "progress must be >= 0");
+  }
+  if (solution !== undefined && typeof solution !== "string") {
+    throw new HttpsError("invalid-argument", "solution must be a string");
+  }
+
+  const ref = matchRef(matchId);
+  const ownSubmissionRef = submissionRef(matchId, uid);
+
+  return db.runTransaction(async (tx) => {
+    const match = requireMatch(await tx.get(ref));
+    const submission = readSubmission(await tx.get(ownSubmissionRef));
+
+    if (!match.players.includes(uid)) {
+      throw new HttpsError("permission-denied", "Not a player in this match");
+    }
+
+    const playerState = match.player_states[uid] ?? {};
+    if (
+      submission.finished_at ||
+      playerState.quit_at ||
+      playerState.forfeited_at
+    ) {
+      throw new HttpsError("failed-precondition", "Player already done");
+    }
+
+    const now = admin.firestore.Timestamp.now();
+    const startAt = match.start_at;
+    if (now.toMillis() < startAt.toMillis()) {
+      throw new HttpsError("failed-precondition", "Match has not started");
+    }
+
+    const elapsedMs = now.toMillis() - startAt.toMillis();
+    const maxDurationMs = (match.max_duration ?? 0) * 1000;
+    if (elapsedMs > maxDurationMs + SUBMISSION_GRACE_MS) {
+      throw new HttpsError("deadline-exceeded", "Match time has elapsed");
+    }
+
+    const statePath = `player_states.${uid}`;
+
+    if (solution === undefined) {
+      // Progress only moves forward
+      if (progress !== undefined && progress > submission.progress) {
+        tx.set(
+          ownSubmissionRef,
+          { match_id: matchId, player_id: uid, progress, updated_at: now },
+          { merge: true }
+        );
+        tx.update(ref, { [`${statePath}.progress`]: progress });
+        appendMatchEvent(
+          tx,
+          matchId,
+          { player_id: uid, type: "progress", progress, elapsed_ms: elapsedMs },
+          now
+        );
+      }
+      return { accepted: true, elapsedMs };
+    }
+
+    const puzzleDoc = await tx.get(
+      db.collection("puzzles").doc(match.puzzle_id)
+    );
+    const puzzle = puzzleDoc.data();
+    const minSolveMs: number = puzzle?.min_solve_ms ?? DEFAULT_MIN_SOLVE_MS;
+
+    let status: VerificationStatus;
+    let reason: string | null = null;
+    if (elapsedMs < minSolveMs) {
+      status = "rejected";
+      reason = "too_fast";
+    } else if (!puzzleDoc.exists) {
+      // A classic level picked while the catalog was empty has no solution
+      // anywhere, so only the timing can be checked
+      status = "verified";
+      reason = "timing_only";
+      logger.warn("submission_timing_only", {
+        match_id: matchId,
+        user_id: uid,
+        puzzle_id: match.puzzle_id,
+        elapsed_ms: elapsedMs,
+      });
+    } else if (!puzzle?.solution_hash) {
+      // Nothing to check against, so the finish can't be trusted
+      status = "rejected";
+      reason = "no_solution_data";
+    } else if (puzzle.solution_hash !== hashSolution(solution)) {
+      status = "rejected";
+      reason = "wrong_solution";
+    } else {
+      status = "verified";
+    }
+
+    const verification: Verification = {
+      status,
+      reason,
+      elapsed_ms: elapsedMs,
+      checked_at: now,
+    };
+
+    if (status === "rejected") {
+      logger.warn("submission_rejected", {
+        match_id: matchId,
+        user_id: uid,
+        reason,
+        elapsed_ms: elapsedMs,
+      });
+      tx.set(
+        ownSubmissionRef,
+        {
+          match_id: matchId,
+          player_id: uid,
+          verification,
+          rejected_submissions: admin.firestore.FieldValue.increment(1),
+          updated_at: now,
+        },
+        { merge: true }
+      );
+      tx.update(ref, {
+        [`${statePath}.verification`]: verification,
+        [`${statePath}.rejected_submissions`]:
+          admin.firestore.FieldValue.increment(1),
+      });
+      appendMatchEvent(
+        tx,
+        matchId,
+        {
+          player_id: uid,
+          type: "rejected",
+          progress: progress ?? null,
+          elapsed_ms: elapsedMs,
+          reason,
+        },
+        now
+      );
+      return { accepted: false, reason, elapsedMs };
+    }
+
+    // Progress of a solved puzzle is never lower than what was reported
+    const finalProgress = Math.max(progress ?? 0, submission.progress);
+    tx.set(
+      ownSubmissionRef,
+      {
+        match_id: matchId,
+        player_id: uid,
+        progress: finalProgress,
+        finished_at: now,
+        verification,
+        updated_at: now,
+      },
+      { merge: true }
+    );
+    tx.update(ref, {
+      [`${statePath}.finished_at`]: now,
+      [`${statePath}.verification`]: verification,
+      ...(progress !== undefined && { [`${statePath}.progress`]: progress }),
+    });
+    appendMatchEvent(
+      tx,
+      matchId,
+      {
+        player_id: uid,
+        type: "finish",
+        progress: finalProgress,
+        elapsed_ms: elapsedMs,
+      },
+      now
+    );
+
+    logger.info("player_finished", {
+      match_id: matchId,
+      user_id: uid,
+      elapsed_ms: elapsedMs,
+      status,
+    });
+    return { accepted: true, elapsedMs, finishedAt: now.toMillis() };
+  });
+});
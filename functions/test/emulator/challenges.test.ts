@@ -0,0 +1,139 @@
+import {
+  callAs,
+  clearFirestore,
+  describeEmulator,
+  fromNow,
+  testEnv,
+} from "./setup";
+import * as admin from "firebase-admin";
+import {
+  acceptChallenge,
+  createChallenge,
+  declineChallenge,
+} from "../../src/index";
+
+const wrappedCreate = testEnv.wrap(createChallenge);
+const wrappedAccept = testEnv.wrap(acceptChallenge);
+const wrappedDecline = testEnv.wrap(declineChallenge);
+
+interface CreatedChallenge {
+  challengeId: string;
+  inviteCode: string;
+}
+
+/**
+ * Creates a challenge as a user.
+ * @param {string} uid The challenger
+ * @param {string} targetUserId The challenged user, none for an open invite
+ * @return {Promise<CreatedChallenge>} The challenge id and invite code
+ */
+async function challenge(
+  uid: string,
+  targetUserId?: string
+): Promise<CreatedChallenge> {
+  return wrappedCreate(callAs(uid, { targetUserId }));
+}
+
+/**
+ * Status of a challenge.
+ * @param {string} challengeId The challenge id
+ * @return {Promise<string | undefined>} The status
+ */
+async function statusOf(challengeId: string): Promise<string | undefined> {
+  const snap = await admin
+    .firestore()
+    .collection("challenges")
+    .doc(challengeId)
+    .get();
+  return snap.data()?.status;
+}
+
+/**
+ * Restricts a user the way banUser does.
+ * @param {string} uid The user id
+ * @param {object} record The status and optional end of the restriction
+ */
+async function restrict(
+  uid: string,
+  record: { status: string; until?: admin.firestore.Timestamp }
+): Promise<void> {
+  await admin
+    .firestore()
+    .collection("user_moderation")
+    .doc(uid)
+    .set({ reason: "test", ...record });
+}
+
+describeEmulator("restricted challengers", () => {
+  beforeEach(() => clearFirestore());
+
+  afterAll(() => testEnv.cleanup());
+
+  it("doesn't let a banned user create a challenge", async () => {
+    await restrict("alice", { status: "banned" });
+
+    await expect(challenge("alice", "bob")).rejects.toMatchObject({
+      code: "permission-denied",
+    });
+    const challenges = await admin.firestore().collection("challenges").get();
+    expect(challenges.empty).toBe(true);
+  });
+
+  it("doesn't let a suspended user accept a challenge", async () => {
+    const { challengeId } = await challenge("alice", "bob");
+    await restrict("bob", { status: "suspended", until: fromNow(60 * 60e3) });
+
+    await expect(
+      wrappedAccept(callAs("bob", { challengeId }))
+    ).rejects.toMatchObject({ code: "permission-denied" });
+    expect(await statusOf(challengeId)).toBe("pending");
+  });
+
+  it("doesn't start a match for a challenger banned since", async () => {
+    const { challengeId } = await challenge("alice", "bob");
+    await restrict("alice", { status: "banned" });
+
+    await expect(
+      wrappedAccept(callAs("bob", { challengeId }))
+    ).rejects.toMatchObject({ code: "failed-precondition" });
+    expect(await statusOf(challengeId)).toBe("pending");
+  });
+});
+
+describeEmulator("declineChallenge", () => {
+  beforeEach(() => clearFirestore());
+
+  afterAll(() => testEnv.cleanup());
+
+  it("lets the challenged user decline", async () => {
+    const { challengeId } = await challenge("alice", "bob");
+    await wrappedDecline(callAs("bob", { challengeId }));
+
+    expect(await statusOf(challengeId)).toBe("declined");
+  });
+
+  it("lets the challenger cancel an open invite", async () => {
+    const { challengeId } = await challenge("alice");
+    await wrappedDecline(callAs("alice", { challengeId }));
+
+    expect(await statusOf(challengeId)).toBe("cancelled");
+  });
+
+  it("keeps an open invite alive when someone with its code declines", async () => {
+    const { challengeId, inviteCode } = await challenge("alice");
+
+    await expect(
+      wrappedDecline(callAs("mallory", { inviteCode }))
+    ).rejects.toMatchObject({ code: "permission-denied" });
+    expect(await statusOf(challengeId)).toBe("pending");
+  });
+
+  it("doesn't let a bystander decline a direct challenge", async () => {
+    const { challengeId } = await challenge("alice", "bob");
+
+    await expect(
+      wrappedDecline(callAs("mallory", { challengeId }))
+    ).rejects.toMatchObject({ code: "permission-denied" });
+    expect(await statusOf(challengeId)).toBe("pending");
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  callAs,
+  clearFirestore,
+  describeEmulator,
+  fromNow,
+  testEnv,
+} from "./setup";
+import * as admin from "firebase-admin";
+import { registerDevice, stampClientActivity } from "../../src/index";
+
+const wrappedRegister = testEnv.wrap(registerDevice);
+const wrappedStamp = testEnv.wrap(stampClientActivity);
+
+/**
+ * Registers a device as a user.
+ * @param {string} uid The signed-in user
+ * @param {string} token The FCM token
+ * @return {Promise<unknown>} The callable result
+ */
+async function register(uid: string, token: string): Promise<unknown> {
+  return wrappedRegister(
+    callAs(uid, { deviceId: "device1", token, platform: "android" })
+  );
+}
+
+/**
+ * Owner of the registered device.
+ * @return {Promise<string | undefined>} The user id
+ */
+async function deviceOwner(): Promise<string | undefined> {
+  const snap = await admin
+    .firestore()
+    .collection("clients")
+    .doc("device1")
+    .get();
+  return snap.data()?.user_id;
+}
+
+describeEmulator("registerDevice", () => {
+  beforeEach(async () => {
+    await clearFirestore();
+    await register("alice", "token-a");
+  });
+
+  afterAll(() => testEnv.cleanup());
+
+  it("rejects another user's device id with a different token", async () => {
+    await expect(register("mallory", "token-m")).rejects.toMatchObject({
+      code: "permission-denied",
+    });
+    expect(await deviceOwner()).toBe("alice");
+  });
+
+  it("hands the device over when it signs in to another account", async () => {
+    await register("bob", "token-a");
+    expect(await deviceOwner()).toBe("bob");
+  });
+
+  it("lets the owner register a new token", async () => {
+    await register("alice", "token-a2");
+    expect(await deviceOwner()).toBe("alice");
+  });
+});
+
+describeEmulator("stampClientActivity", () => {
+  const ref = (): admin.firestore.DocumentReference =>
+    admin.firestore().collection("clients").doc("device1");
+  const lastSeen = fromNow(-30 * 24 * 60 * 60 * 1000);
+  const client = {
+    user_id: "alice",
+    fcm_token: "token-a",
+    notification_preferences: {},
+    last_seen_at: lastSeen,
+  };
+
+  /**
+   * Writes the client document and runs the trigger for the write.
+   * @param {object} data The data after the write
+   * @return {Promise<admin.firestore.DocumentData | undefined>} The client
+   *   after the trigger ran
+   */
+  async function write(
+    data: admin.firestore.DocumentData
+  ): Promise<admin.firestore.DocumentData | undefined> {
+    await ref().set(data);
+    await wrappedStamp({
+      data: testEnv.makeChange(
+        testEnv.firestore.makeDocumentSnapshot(client, ref().path),
+        await ref().get()
+      ),
+      params: { deviceId: "device1" },
+    });
+    return (await ref().get()).data();
+  }
+
+  beforeEach(() => clearFirestore());
+
+  afterAll(() => testEnv.cleanup());
+
+  it("refreshes last_seen_at on every write by the app", async () => {
+    const after = await write({ ...client, locale: "de" });
+    expect(after?.last_seen_at.toMillis()).toBeGreaterThan(lastSeen.toMillis());
+  });
+
+  it("leaves writes that set last_seen_at alone", async () => {
+    const seenAt = fromNow(-1000);
+    const after = await write({ ...client, last_seen_at: seenAt });
+    expect(after?.last_seen_at.isEqual(seenAt)).toBe(true);
+  });
+
+  it("doesn't count token upkeep by the server as activity", async () => {
+    const after = await write({
+      user_id: client.user_id,
+      notification_preferences: {},
+      last_seen_at: lastSeen,
+      fcm_token_invalid: true,
+      fcm_token_invalid_reason: "messaging/registration-token-not-registered",
+    });
+    expect(after?.last_seen_at.isEqual(lastSeen)).toBe(true);
+  });
+});
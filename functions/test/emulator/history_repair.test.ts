@@ -0,0 +1,66 @@
+import { callAs, clearFirestore, describeEmulator, testEnv } from "./setup";
+import * as admin from "firebase-admin";
+import { repairDuplicateHistory } from "../../src/index";
+
+const wrappedRepair = testEnv.wrap(repairDuplicateHistory);
+
+/**
+ * Runs the repair as an admin.
+ * @param {object} data The request data
+ * @return {Promise<object>} The repair counts and cursor
+ */
+async function repair(
+  data: admin.firestore.DocumentData
+): Promise<admin.firestore.DocumentData> {
+  return wrappedRepair(callAs("admin", data, { admin: true }));
+}
+
+/**
+ * Ids of the history entries in the emulator.
+ * @return {Promise<string[]>} The entry ids
+ */
+async function historyIds(): Promise<string[]> {
+  const snapshot = await admin.firestore().collection("match_history").get();
+  return snapshot.docs.map((doc) => doc.id).sort();
+}
+
+describeEmulator("repairDuplicateHistory", () => {
+  beforeEach(async () => {
+    await clearFirestore();
+    const history = admin.firestore().collection("match_history");
+    // Two auto-ID entries of one match and player, one of another match
+    await history.doc("auto1").set({ match_id: "m1", player_id: "alice" });
+    await history.doc("auto2").set({ match_id: "m1", player_id: "alice" });
+    await history.doc("auto3").set({ match_id: "m2", player_id: "alice" });
+  });
+
+  afterAll(() => testEnv.cleanup());
+
+  it("counts a second entry of the same target as removed in a dry run", async () => {
+    expect(await repair({ dryRun: true })).toMatchObject({
+      scanned: 3,
+      moved: 2,
+      removed: 1,
+      cursor: null,
+    });
+    expect(await historyIds()).toEqual(["auto1", "auto2", "auto3"]);
+  });
+
+  it("moves the first entry of each target and removes the rest", async () => {
+    expect(await repair({})).toMatchObject({
+      moved: 2,
+      removed: 1,
+      failed: 0,
+      cursor: null,
+    });
+    expect(await historyIds()).toEqual(["m1_alice", "m2_alice"]);
+  });
+
+  it("counts like the real run when resumed from a cursor", async () => {
+    expect(await repair({ dryRun: true, cursor: "auto1" })).toMatchObject({
+      scanned: 2,
+      moved: 1,
+      removed: 1,
+    });
+  });
+});
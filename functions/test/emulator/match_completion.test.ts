@@ -0,0 +1,337 @@
+import {
+  clearFirestore,
+  describeEmulator,
+  fromNow,
+  seedPuzzles,
+  testEnv,
+} from "./setup";
+import * as admin from "firebase-admin";
+import { BotPlan } from "../../src/bots";
+import { onMatchDeleted } from "../../src/index";
+import { DEFAULT_RATING } from "../../src/ratings";
+
+const wrappedMatchDeleted = testEnv.wrap(onMatchDeleted);
+
+interface TestSubmission {
+  progress?: number;
+  // Milliseconds after start_at
+  finishedAfterMs?: number;
+  rejected?: number;
+  botPlan?: BotPlan;
+}
+
+/**
+ * Creates a match that started a minute ago, with the given server-side
+ * submissions.
+ * @param {string} matchId The match id
+ * @param {string[]} players The players
+ * @param {object} options Submissions, player state overrides and bots
+ * @return {Promise<admin.firestore.Timestamp>} The match start
+ */
+async function createMatch(
+  matchId: string,
+  players: string[],
+  options: {
+    submissions?: Record<string, TestSubmission>;
+    playerStates?: Record<string, admin.firestore.DocumentData>;
+    botIds?: string[];
+  } = {}
+): Promise<admin.firestore.Timestamp> {
+  const db = admin.firestore();
+  const startAt = fromNow(-60 * 1000);
+  await db
+    .collection("matches")
+    .doc(matchId)
+    .set({
+      players,
+      lobby_size: players.length,
+      start_at: startAt,
+      created_at: fromNow(-65 * 1000),
+      puzzle_id: "cls:20",
+      max_duration: 85,
+      player_states: Object.fromEntries(
+        players.map((playerId) => [
+          playerId,
+          { username: playerId, ...options.playerStates?.[playerId] },
+        ])
+      ),
+      schema_version: 1,
+      ...(options.botIds && { bot_ids: options.botIds, has_bots: true }),
+    });
+
+  for (const [playerId, submission] of Object.entries(
+    options.submissions ?? {}
+  )) {
+    await db
+      .collection("match_submissions")
+      .doc(`${matchId}_${playerId}`)
+      .set({
+        match_id: matchId,
+        player_id: playerId,
+        progress: submission.progress ?? 0,
+        finished_at:
+          submission.finishedAfterMs === undefined
+            ? null
+            : admin.firestore.Timestamp.fromMillis(
+                startAt.toMillis() + submission.finishedAfterMs
+              ),
+        rejected_submissions: submission.rejected ?? 0,
+        bot_plan: submission.botPlan ?? null,
+      });
+  }
+  return startAt;
+}
+
+/**
+ * Deletes a match and runs `onMatchDeleted` with its last data.
+ * @param {string} matchId The match id
+ */
+async function deleteMatch(matchId: string): Promise<void> {
+  const ref = admin.firestore().collection("matches").doc(matchId);
+  const snap = await ref.get();
+  await ref.delete();
+  await wrappedMatchDeleted({ data: snap, params: { matchId } });
+}
+
+/**
+ * History entry of a player in a match.
+ * @param {string} matchId The match id
+ * @param {string} playerId The player id
+ * @return {Promise<admin.firestore.DocumentData | undefined>} The entry
+ */
+async function historyOf(
+  matchId: string,
+  playerId: string
+): Promise<admin.firestore.DocumentData | undefined> {
+  const snap = await admin
+    .firestore()
+    .collection("match_history")
+    .doc(`${matchId}_${playerId}`)
+    .get();
+  return snap.data();
+}
+
+describeEmulator("onMatchDeleted", () => {
+  beforeEach(async () => {
+    await clearFirestore();
+    await seedPuzzles();
+  });
+
+  afterAll(() => testEnv.cleanup());
+
+  it("records the faster finisher as the winner", async () => {
+    await createMatch("m1", ["alice", "bob"], {
+      submissions: {
+        alice: { progress: 100, finishedAfterMs: 20000 },
+        bob: { progress: 100, finishedAfterMs: 30000 },
+      },
+    });
+    await deleteMatch("m1");
+
+    const alice = await historyOf("m1", "alice");
+    const bob = await historyOf("m1", "bob");
+    expect(alice).toMatchObject({
+      result: "win",
+      placement: 1,
+      opponent_id: "bob",
+      opponent_username: "bob",
+      match_duration: 20000,
+      rating_before: DEFAULT_RATING,
+      schema_version: 1,
+    });
+    expect(alice?.rating_change).toBeGreaterThan(0);
+    expect(bob).toMatchObject({ result: "loss", placement: 2 });
+    expect(bob?.rating_change).toBe(-(alice?.rating_change as number));
+
+    const result = await admin
+      .firestore()
+      .collection("match_results")
+      .doc("m1")
+      .get();
+    expect(result.data()).toMatchObject({
+      winner: "alice",
+      finalized_by: "client_delete",
+    });
+  });
+
+  it("ignores finishes and winners written by clients", async () => {
+    await createMatch("m2", ["alice", "bob"], {
+      submissions: { alice: { progress: 60 }, bob: { progress: 40 } },
+      playerStates: {
+        bob: {
+          progress: 100,
+          finished_at: fromNow(-50 * 1000),
+          verification: { status: "verified" },
+        },
+      },
+    });
+    await admin
+      .firestore()
+      .collection("matches")
+      .doc("m2")
+      .update({ winner: "bob" });
+    await deleteMatch("m2");
+
+    expect(await historyOf("m2", "alice")).toMatchObject({ result: "win" });
+    const bob = await historyOf("m2", "bob");
+    expect(bob).toMatchObject({
+      result: "loss",
+      player_progress: 40,
+      player_finished_at: null,
+      suspicious: true,
+    });
+    expect(bob?.suspicious_reasons).toContain("bob:client_finished_at");
+  });
+
+  it("draws a progress tie", async () => {
+    await createMatch("m3", ["alice", "bob"], {
+      submissions: { alice: { progress: 50 }, bob: { progress: 50 } },
+    });
+    await deleteMatch("m3");
+
+    expect(await historyOf("m3", "alice")).toMatchObject({ result: "draw" });
+    expect(await historyOf("m3", "bob")).toMatchObject({ result: "draw" });
+  });
+
+  it("draws when both players quit", async () => {
+    await createMatch("m4", ["alice", "bob"], {
+      submissions: { alice: { progress: 80 }, bob: { progress: 10 } },
+      playerStates: {
+        alice: { quit_at: fromNow(-30 * 1000) },
+        bob: { quit_at: fromNow(-20 * 1000) },
+      },
+    });
+    await deleteMatch("m4");
+
+    expect(await historyOf("m4", "alice")).toMatchObject({
+      result: "draw",
+      forfeit_reason: "quit",
+    });
+    expect(await historyOf("m4", "bob")).toMatchObject({ result: "draw" });
+  });
+
+  it("writes no history when a player quit before start_at", async () => {
+    await createMatch("m5", ["alice", "bob"], {
+      playerStates: { bob: { quit_at: fromNow(-61 * 1000) } },
+    });
+    await deleteMatch("m5");
+
+    expect(await historyOf("m5", "alice")).toBeUndefined();
+    expect(await historyOf("m5", "bob")).toBeUndefined();
+    const abandonment = await admin
+      .firestore()
+      .collection("player_penalties")
+      .doc("bob")
+      .get();
+    expect(abandonment.exists).toBe(true);
+  });
+
+  it("records every player of a lobby", async () => {
+    const players = ["p1", "p2", "p3", "p4"];
+    await createMatch("m6", players, {
+      submissions: {
+        p1: { progress: 30 },
+        p2: { progress: 100, finishedAfterMs: 40000 },
+        p3: { progress: 30 },
+        p4: { progress: 100, finishedAfterMs: 25000 },
+      },
+    });
+    await deleteMatch("m6");
+
+    const entries = await Promise.all(
+      players.map((playerId) => historyOf("m6", playerId))
+    );
+    expect(entries.map((entry) => entry?.placement)).toEqual([3, 2, 3, 1]);
+    expect(entries.map((entry) => entry?.result)).toEqual([
+      "loss",
+      "loss",
+      "loss",
+      "win",
+    ]);
+    // Lobby entries have no single opponent
+    expect(entries[0]).toMatchObject({
+      opponent_id: null,
+      opponent_username: null,
+      player_count: 4,
+    });
+    expect(entries[0]?.opponents).toHaveLength(3);
+  });
+
+  it("lets a bot finish that was last advanced before its finish", async () => {
+    await createMatch("m9", ["alice", "bot_1"], {
+      botIds: ["bot_1"],
+      submissions: {
+        alice: { progress: 80 },
+        bot_1: {
+          progress: 10,
+          botPlan: {
+            checkpoints: [
+              { elapsed_ms: 5000, progress: 10 },
+              { elapsed_ms: 30000, progress: 100 },
+            ],
+            finish_ms: 30000,
+          },
+        },
+      },
+    });
+    await deleteMatch("m9");
+
+    expect(await historyOf("m9", "alice")).toMatchObject({
+      result: "loss",
+      opponents: [
+        expect.objectContaining({ player_id: "bot_1", progress: 100 }),
+      ],
+    });
+    const bot = await admin
+      .firestore()
+      .collection("match_submissions")
+      .doc("m9_bot_1")
+      .get();
+    expect(bot.data()?.verification).toMatchObject({ reason: "bot" });
+  });
+
+  it("forfeits only the player with a malformed state", async () => {
+    await createMatch("m8", ["alice", "bob"], {
+      submissions: { alice: { progress: 30 }, bob: { progress: 60 } },
+      playerStates: { bob: { progress: -1 } },
+    });
+    await deleteMatch("m8");
+
+    expect(await historyOf("m8", "alice")).toMatchObject({ result: "win" });
+    expect(await historyOf("m8", "bob")).toMatchObject({
+      result: "loss",
+      forfeit_reason: "invalid_state",
+    });
+    // The match itself is fine, so it isn't quarantined
+    const deadLetter = await admin
+      .firestore()
+      .collection("dead_letters")
+      .doc("matches_m8")
+      .get();
+    expect(deadLetter.exists).toBe(false);
+  });
+
+  it("finalizes a match only once", async () => {
+    await createMatch("m7", ["alice", "bob"], {
+      submissions: {
+        alice: { progress: 100, finishedAfterMs: 20000 },
+        bob: { progress: 10 },
+      },
+    });
+    const ref = admin.firestore().collection("matches").doc("m7");
+    const snap = await ref.get();
+    await ref.delete();
+
+    await Promise.all([
+      wrappedMatchDeleted({ data: snap, params: { matchId: "m7" } }),
+      wrappedMatchDeleted({ data: snap, params: { matchId: "m7" } }),
+    ]);
+
+    const rating = await admin
+      .firestore()
+      .collection("player_ratings")
+      .doc("alice")
+      .get();
+    expect(rating.data()?.games_played).toBe(1);
+  });
+});
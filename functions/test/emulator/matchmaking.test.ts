@@ -0,0 +1,264 @@
+import {
+  clearFirestore,
+  describeEmulator,
+  fromNow,
+  seedPuzzles,
+  testEnv,
+} from "./setup";
+import * as admin from "firebase-admin";
+import { onQueueUpdated } from "../../src/index";
+import { matchQueuedUser } from "../../src/match_making";
+
+// Records the matchWaitingUser tasks instead of calling Cloud Tasks
+const mockEnqueue = jest.fn().mockResolvedValue(undefined);
+jest.mock("firebase-admin/functions", () => ({
+  getFunctions: () => ({ taskQueue: () => ({ enqueue: mockEnqueue }) }),
+}));
+
+const wrappedQueueUpdated = testEnv.wrap(onQueueUpdated);
+
+/**
+ * Writes a queue entry and runs `onQueueUpdated` for it, as the trigger
+ * would after the create.
+ * @param {string} userId The joining user
+ * @param {object} fields Queue entry fields overriding the defaults
+ */
+async function joinQueue(
+  userId: string,
+  fields: admin.firestore.DocumentData = {}
+): Promise<void> {
+  const ref = admin.firestore().collection("match_queue").doc(userId);
+  await ref.set({
+    joined_at: fromNow(-1000),
+    username: userId,
+    avatar: null,
+    lobby_size: 2,
+    schema_version: 1,
+    ...fields,
+  });
+  await wrappedQueueUpdated({
+    data: testEnv.makeChange(
+      testEnv.firestore.makeDocumentSnapshot({}, ref.path),
+      await ref.get()
+    ),
+    params: { userId },
+  });
+}
+
+/**
+ * Players of every match in the emulator.
+ * @return {Promise<Array<string[]>>} The player ids of each match
+ */
+async function matchPlayers(): Promise<string[][]> {
+  const snapshot = await admin.firestore().collection("matches").get();
+  return snapshot.docs.map((doc) => doc.data().players);
+}
+
+/**
+ * Ids of the users still in the queue.
+ * @return {Promise<string[]>} The user ids
+ */
+async function queuedUserIds(): Promise<string[]> {
+  const snapshot = await admin.firestore().collection("match_queue").get();
+  return snapshot.docs.map((doc) => doc.id);
+}
+
+describeEmulator("onQueueUpdated", () => {
+  beforeEach(async () => {
+    await clearFirestore();
+    await seedPuzzles();
+    mockEnqueue.mockClear();
+  });
+
+  afterAll(() => testEnv.cleanup());
+
+  it("keeps a lone player waiting", async () => {
+    await joinQueue("alice");
+
+    expect(await matchPlayers()).toEqual([]);
+    expect(await queuedUserIds()).toEqual(["alice"]);
+  });
+
+  it("schedules matchmaking for when the bot wait passes", async () => {
+    // Joined a second ago, the bot is due 25 seconds after joining
+    await joinQueue("alice");
+
+    expect(mockEnqueue).toHaveBeenCalledTimes(1);
+    expect(mockEnqueue).toHaveBeenCalledWith(
+      { userId: "alice" },
+      { scheduleDelaySeconds: 24 }
+    );
+  });
+
+  it("also schedules the lobby fill timeout for a larger lobby", async () => {
+    await joinQueue("p1", { lobby_size: 4 });
+
+    expect(
+      mockEnqueue.mock.calls.map(([, options]) => options.scheduleDelaySeconds)
+    ).toEqual([24, 19]);
+  });
+
+  it("pairs two waiting players and empties the queue", async () => {
+    await joinQueue("alice", { joined_at: fromNow(-3000) });
+    await joinQueue("bob");
+
+    const matches = await admin.firestore().collection("matches").get();
+    expect(matches.size).toBe(1);
+    const match = matches.docs[0].data();
+    expect([...match.players].sort()).toEqual(["alice", "bob"]);
+    expect(match.lobby_size).toBe(2);
+    expect(match.player_states.alice.username).toBe("alice");
+    expect(match.start_at.toMillis()).toBeGreaterThan(Date.now());
+    expect(await queuedUserIds()).toEqual([]);
+  });
+
+  it("only pairs players asking for the same lobby size", async () => {
+    await joinQueue("alice", { lobby_size: 4 });
+    await joinQueue("bob");
+
+    expect(await matchPlayers()).toEqual([]);
+    expect((await queuedUserIds()).sort()).toEqual(["alice", "bob"]);
+  });
+
+  it("fills a larger lobby once every seat is taken", async () => {
+    await joinQueue("p1", { lobby_size: 3, joined_at: fromNow(-3000) });
+    await joinQueue("p2", { lobby_size: 3, joined_at: fromNow(-2000) });
+    expect(await matchPlayers()).toEqual([]);
+
+    await joinQueue("p3", { lobby_size: 3 });
+    const matches = await matchPlayers();
+    expect(matches.map((players) => [...players].sort())).toEqual([
+      ["p1", "p2", "p3"],
+    ]);
+  });
+
+  it("leaves banned players out of matches", async () => {
+    await admin
+      .firestore()
+      .collection("user_moderation")
+      .doc("mallory")
+      .set({ status: "banned" });
+    await joinQueue("mallory", { joined_at: fromNow(-3000) });
+    await joinQueue("bob");
+
+    expect(await matchPlayers()).toEqual([]);
+    expect(await queuedUserIds()).toEqual(["bob"]);
+  });
+
+  it("quarantines a malformed queue entry", async () => {
+    await joinQueue("alice", { joined_at: "yesterday" });
+
+    expect(await queuedUserIds()).toEqual([]);
+    const deadLetter = await admin
+      .firestore()
+      .collection("dead_letters")
+      .doc("match_queue_alice")
+      .get();
+    expect(deadLetter.data()?.field).toBe("joined_at");
+  });
+
+  describe("waiting users", () => {
+    it("get a bot once they waited past bot_match_wait_seconds", async () => {
+      await joinQueue("alice");
+      expect(await matchPlayers()).toEqual([]);
+
+      // As sweepQueue does later, without another queue write
+      await admin
+        .firestore()
+        .collection("match_queue")
+        .doc("alice")
+        .update({ joined_at: fromNow(-30 * 1000) });
+      await matchQueuedUser("alice");
+
+      const matches = await matchPlayers();
+      expect(matches).toHaveLength(1);
+      expect(matches[0]).toContain("alice");
+      expect(matches[0].find((id) => id !== "alice")).toMatch(/^bot_/);
+      expect(await queuedUserIds()).toEqual([]);
+    });
+
+    it("start a short lobby after lobby_fill_timeout_seconds", async () => {
+      await joinQueue("p1", { lobby_size: 4, joined_at: fromNow(-3000) });
+      await joinQueue("p2", { lobby_size: 4 });
+      expect(await matchPlayers()).toEqual([]);
+
+      await admin
+        .firestore()
+        .collection("match_queue")
+        .doc("p1")
+        .update({ joined_at: fromNow(-21 * 1000) });
+      await matchQueuedUser("p1");
+
+      const matches = await matchPlayers();
+      expect(matches.map((players) => [...players].sort())).toEqual([
+        ["p1", "p2"],
+      ]);
+    });
+  });
+
+  describe("concurrent joins", () => {
+    /**
+     * Writes all queue entries first, then runs their triggers at once, like
+     * a burst of joins.
+     * @param {string[]} userIds The joining users
+     * @param {number} lobbySize The lobby size they ask for
+     */
+    async function joinAtOnce(userIds: string[], lobbySize = 2): Promise<void> {
+      const db = admin.firestore();
+      const refs = userIds.map((userId) =>
+        db.collection("match_queue").doc(userId)
+      );
+      await Promise.all(
+        refs.map((ref, index) =>
+          ref.set({
+            joined_at: fromNow(-5000 + index),
+            username: ref.id,
+            lobby_size: lobbySize,
+            schema_version: 1,
+          })
+        )
+      );
+      await Promise.all(
+        refs.map(async (ref) =>
+          wrappedQueueUpdated({
+            data: testEnv.makeChange(
+              testEnv.firestore.makeDocumentSnapshot({}, ref.path),
+              await ref.get()
+            ),
+            params: { userId: ref.id },
+          })
+        )
+      );
+    }
+
+    it("never puts a player in two matches", async () => {
+      const userIds = ["u1", "u2", "u3", "u4", "u5", "u6"];
+      await joinAtOnce(userIds);
+
+      const matched = (await matchPlayers()).flat();
+      expect(new Set(matched).size).toBe(matched.length);
+      // Everyone is either matched or still waiting, never both
+      const queued = await queuedUserIds();
+      expect(queued.filter((userId) => matched.includes(userId))).toEqual([]);
+      expect([...matched, ...queued].sort()).toEqual(userIds);
+    });
+
+    it("matches both players of a simultaneous pair once", async () => {
+      await joinAtOnce(["alice", "bob"]);
+
+      const matches = await matchPlayers();
+      expect(matches).toHaveLength(1);
+      expect([...matches[0]].sort()).toEqual(["alice", "bob"]);
+      expect(await queuedUserIds()).toEqual([]);
+    });
+
+    it("fills a lobby of 4 exactly once from a burst of joins", async () => {
+      const userIds = ["a", "b", "c", "d"];
+      await joinAtOnce(userIds, 4);
+
+      const matches = await matchPlayers();
+      expect(matches).toHaveLength(1);
+      expect([...matches[0]].sort()).toEqual(userIds);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { callAs, clearFirestore, describeEmulator, testEnv } from "./setup";
+import * as admin from "firebase-admin";
+import { seedPuzzleCatalog } from "../../src/index";
+
+const wrappedSeed = testEnv.wrap(seedPuzzleCatalog);
+
+/**
+ * Seeds the catalog as an admin.
+ * @param {object} solutions Solutions by puzzle id
+ * @return {Promise<object>} The seed counts
+ */
+async function seed(
+  solutions: Record<string, string> = {}
+): Promise<admin.firestore.DocumentData> {
+  return wrappedSeed(callAs("admin", { solutions }, { admin: true }));
+}
+
+/**
+ * Catalog document of a puzzle.
+ * @param {string} puzzleId The puzzle id
+ * @return {Promise<admin.firestore.DocumentData | undefined>} The puzzle
+ */
+async function puzzleOf(
+  puzzleId: string
+): Promise<admin.firestore.DocumentData | undefined> {
+  const snap = await admin
+    .firestore()
+    .collection("puzzles")
+    .doc(puzzleId)
+    .get();
+  return snap.data();
+}
+
+describeEmulator("seedPuzzleCatalog", () => {
+  beforeEach(() => clearFirestore());
+
+  afterAll(() => testEnv.cleanup());
+
+  it("only enables levels it got a solution for", async () => {
+    expect(await seed({ "cls:20": "solution" })).toMatchObject({
+      created: 283,
+      solutions: 1,
+      unsolved: 280,
+      failed: 0,
+    });
+
+    expect(await puzzleOf("cls:20")).toMatchObject({ enabled: true });
+    expect(await puzzleOf("cls:21")).toMatchObject({
+      enabled: false,
+      disabled_reason: "no_solution",
+    });
+    // Disabled on purpose, not for lack of a solution
+    expect((await puzzleOf("cls:37"))?.disabled_reason).toBeUndefined();
+  });
+
+  it("enables a held back level once its solution arrives", async () => {
+    await seed();
+    await seed({ "cls:21": "solution", "cls:37": "solution" });
+
+    const level = await puzzleOf("cls:21");
+    expect(level).toMatchObject({ enabled: true });
+    expect(level?.disabled_reason).toBeUndefined();
+    expect(level?.solution_hash).toEqual(expect.any(String));
+    expect(await puzzleOf("cls:37")).toMatchObject({ enabled: false });
+  });
+
+  it("skips levels already in the catalog without failing them", async () => {
+    await seed();
+
+    expect(await seed()).toMatchObject({ created: 0, failed: 0 });
+  });
+});
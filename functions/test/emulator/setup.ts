@@ -0,0 +1,80 @@
+import * as admin from "firebase-admin";
+import { DecodedIdToken } from "firebase-admin/auth";
+import functionsTest = require("firebase-functions-test");
+import { CallableRequest } from "firebase-functions/v2/https";
+
+// Shared by the emulator suites; run them with `npm run test:emulator`, which
+// starts the Firestore emulator and sets FIRESTORE_EMULATOR_HOST. The suites
+// share one database and clear it before each test, so they run in band.
+export const PROJECT_ID = "demo-turnix";
+
+// Sets up the environment for src/index, so import this module first
+export const testEnv = functionsTest({ projectId: PROJECT_ID });
+
+export const describeEmulator = process.env.FIRESTORE_EMULATOR_HOST
+  ? describe
+  : describe.skip;
+
+// Triggers run several emulator transactions each
+jest.setTimeout(30 * 1000);
+
+/**
+ * Deletes every document in the emulator.
+ */
+export async function clearFirestore(): Promise<void> {
+  const response = await fetch(
+    `http://${process.env.FIRESTORE_EMULATOR_HOST}/emulator/v1/projects/` +
+      `${PROJECT_ID}/databases/(default)/documents`,
+    { method: "DELETE" }
+  );
+  if (!response.ok) {
+    throw new Error(`Clearing the emulator failed: ${response.status}`);
+  }
+}
+
+/**
+ * Adds a few enabled puzzles with solution hashes to the catalog.
+ */
+export async function seedPuzzles(): Promise<void> {
+  const db = admin.firestore();
+  await Promise.all(
+    ["cls:20", "cls:21", "cls:22"].map((puzzleId) =>
+      db.collection("puzzles").doc(puzzleId).set({
+        pack: "cls",
+        difficulty: 1,
+        enabled: true,
+        solution_hash: "test",
+      })
+    )
+  );
+}
+
+/**
+ * Timestamp relative to now.
+ * @param {number} offsetMs Milliseconds from now, negative for the past
+ * @return {admin.firestore.Timestamp} The timestamp
+ */
+export function fromNow(offsetMs: number): admin.firestore.Timestamp {
+  return admin.firestore.Timestamp.fromMillis(Date.now() + offsetMs);
+}
+
+/**
+ * Callable request from a signed-in user.
+ * @param {string} uid The user id
+ * @param {T} data The request data
+ * @param {object} claims Custom claims, e.g. `{admin: true}`
+ * @return {CallableRequest<T>} The request
+ */
+export function callAs<T>(
+  uid: string,
+  data: T,
+  claims: Record<string, unknown> = {}
+): CallableRequest<T> {
+  // The callables only read the data, the uid and the claims
+  return {
+    data,
+    auth: { uid, token: { uid, ...claims } as unknown as DecodedIdToken },
+    rawRequest: {} as CallableRequest["rawRequest"],
+    acceptsStreaming: false,
+  };
+}
@@ -0,0 +1,260 @@
+import {
+  PlayerResult,
+  compareResults,
+  completedAtMs,
+  decidedPlacements,
+  matchDurationMs,
+  quitBeforeStart,
+  resolvePlacements,
+  resultOf,
+  scoreAgainst,
+  winnerOf,
+} from "../src/match_resolution";
+
+const result = (
+  playerId: string,
+  fields: Partial<PlayerResult> = {}
+): PlayerResult => ({
+  playerId,
+  finishedAtMs: null,
+  progress: 0,
+  quitAtMs: null,
+  ...fields,
+});
+
+describe("quitBeforeStart", () => {
+  it("is true for a quit before start_at", () => {
+    expect(quitBeforeStart(999, 1000)).toBe(true);
+  });
+
+  it("is false for a quit at or after start_at", () => {
+    expect(quitBeforeStart(1000, 1000)).toBe(false);
+    expect(quitBeforeStart(1001, 1000)).toBe(false);
+  });
+
+  it("is false when the player didn't quit or the start is unknown", () => {
+    expect(quitBeforeStart(null, 1000)).toBe(false);
+    expect(quitBeforeStart(undefined, 1000)).toBe(false);
+    expect(quitBeforeStart(999, null)).toBe(false);
+    expect(quitBeforeStart(999, undefined)).toBe(false);
+  });
+});
+
+describe("compareResults", () => {
+  it("ranks the earlier finish first", () => {
+    expect(
+      compareResults(
+        result("a", { finishedAtMs: 10 }),
+        result("b", { finishedAtMs: 20 })
+      )
+    ).toBeLessThan(0);
+  });
+
+  it("ranks a finished player above a player with more progress", () => {
+    expect(
+      compareResults(
+        result("a", { progress: 99 }),
+        result("b", { finishedAtMs: 20, progress: 50 })
+      )
+    ).toBeGreaterThan(0);
+  });
+
+  it("ranks unfinished players by progress", () => {
+    expect(
+      compareResults(
+        result("a", { progress: 70 }),
+        result("b", { progress: 40 })
+      )
+    ).toBeLessThan(0);
+  });
+
+  it("ranks a quitter below everyone who stayed", () => {
+    expect(
+      compareResults(
+        result("a", { finishedAtMs: 10, quitAtMs: 20 }),
+        result("b")
+      )
+    ).toBeGreaterThan(0);
+  });
+
+  it("ties two quitters regardless of progress", () => {
+    expect(
+      compareResults(
+        result("a", { progress: 90, quitAtMs: 10 }),
+        result("b", { progress: 5, quitAtMs: 20 })
+      )
+    ).toBe(0);
+  });
+});
+
+describe("resolvePlacements", () => {
+  it("places the faster finisher first", () => {
+    const placements = resolvePlacements([
+      result("a", { finishedAtMs: 30 }),
+      result("b", { finishedAtMs: 20 }),
+    ]);
+    expect(placements).toEqual(
+      new Map([
+        ["b", 1],
+        ["a", 2],
+      ])
+    );
+    expect(winnerOf(placements)).toBe("b");
+  });
+
+  it("draws when both players quit", () => {
+    const placements = resolvePlacements([
+      result("a", { progress: 80, quitAtMs: 10 }),
+      result("b", { progress: 20, quitAtMs: 50 }),
+    ]);
+    expect(placements.get("a")).toBe(1);
+    expect(placements.get("b")).toBe(1);
+    expect(winnerOf(placements)).toBeNull();
+    expect(resultOf(1, placements)).toBe("draw");
+  });
+
+  it("draws on a progress tie without finishes", () => {
+    const placements = resolvePlacements([
+      result("a", { progress: 60 }),
+      result("b", { progress: 60 }),
+    ]);
+    expect(winnerOf(placements)).toBeNull();
+    expect(resultOf(placements.get("a") as number, placements)).toBe("draw");
+  });
+
+  it("draws on identical finish times", () => {
+    const placements = resolvePlacements([
+      result("a", { finishedAtMs: 500 }),
+      result("b", { finishedAtMs: 500 }),
+    ]);
+    expect(winnerOf(placements)).toBeNull();
+  });
+
+  it("lets the player who stayed win against a quitter", () => {
+    const placements = resolvePlacements([
+      result("a", { progress: 90, quitAtMs: 10 }),
+      result("b", { progress: 0 }),
+    ]);
+    expect(winnerOf(placements)).toBe("b");
+    expect(resultOf(placements.get("a") as number, placements)).toBe("loss");
+  });
+
+  it.each([3, 4, 5, 6, 7, 8])(
+    "shares first place among %i players tied on progress",
+    (count) => {
+      const results = Array.from({ length: count }, (_, index) =>
+        result(`p${index}`, { progress: 50 })
+      );
+      const placements = resolvePlacements(results);
+      expect([...placements.values()]).toEqual(Array(count).fill(1));
+      expect(winnerOf(placements)).toBeNull();
+      results.forEach(({ playerId }) =>
+        expect(resultOf(placements.get(playerId) as number, placements)).toBe(
+          "draw"
+        )
+      );
+    }
+  );
+
+  it.each([3, 4, 5, 6, 7, 8])(
+    "skips placements after a tie among %i players",
+    (count) => {
+      // Two finish together, the rest tie on progress, the last one quits
+      const results = [
+        result("fast1", { finishedAtMs: 100 }),
+        result("fast2", { finishedAtMs: 100 }),
+        ...Array.from({ length: count - 3 }, (_, index) =>
+          result(`slow${index}`, { progress: 40 })
+        ),
+        result("quitter", { progress: 99, quitAtMs: 50 }),
+      ];
+      const placements = resolvePlacements(results);
+
+      expect(placements.get("fast1")).toBe(1);
+      expect(placements.get("fast2")).toBe(1);
+      for (let index = 0; index < count - 3; index++) {
+        expect(placements.get(`slow${index}`)).toBe(3);
+      }
+      expect(placements.get("quitter")).toBe(count);
+      expect(winnerOf(placements)).toBeNull();
+    }
+  );
+
+  it("orders a full lobby of 8 by finish time and progress", () => {
+    const placements = resolvePlacements([
+      result("p1", { progress: 10 }),
+      result("p2", { finishedAtMs: 300 }),
+      result("p3", { progress: 70 }),
+      result("p4", { finishedAtMs: 200 }),
+      result("p5", { quitAtMs: 5 }),
+      result("p6", { progress: 70 }),
+      result("p7", { progress: 30 }),
+      result("p8", { quitAtMs: 9 }),
+    ]);
+    expect(Object.fromEntries(placements)).toEqual({
+      p4: 1,
+      p2: 2,
+      p3: 3,
+      p6: 3,
+      p7: 5,
+      p1: 6,
+      p5: 7,
+      p8: 7,
+    });
+    expect(winnerOf(placements)).toBe("p4");
+  });
+});
+
+describe("decidedPlacements", () => {
+  it("puts the winner first and everyone else second", () => {
+    expect(decidedPlacements(["a", "b", "c"], "b")).toEqual(
+      new Map([
+        ["a", 2],
+        ["b", 1],
+        ["c", 2],
+      ])
+    );
+  });
+});
+
+describe("scoreAgainst", () => {
+  it("scores better, equal and worse placements", () => {
+    expect(scoreAgainst(1, 2)).toBe(1);
+    expect(scoreAgainst(2, 2)).toBe(0.5);
+    expect(scoreAgainst(3, 2)).toBe(0);
+  });
+});
+
+describe("completedAtMs", () => {
+  it("uses the earliest finish", () => {
+    expect(
+      completedAtMs(
+        [
+          result("a", { finishedAtMs: 700 }),
+          result("b", { finishedAtMs: 400 }),
+          result("c"),
+        ],
+        1000
+      )
+    ).toBe(400);
+  });
+
+  it("falls back when nobody finished", () => {
+    expect(completedAtMs([result("a"), result("b")], 1000)).toBe(1000);
+  });
+});
+
+describe("matchDurationMs", () => {
+  it("measures from start_at to completion", () => {
+    expect(matchDurationMs(5000, 2000)).toBe(3000);
+  });
+
+  it("never goes negative", () => {
+    expect(matchDurationMs(1000, 2000)).toBe(0);
+  });
+
+  it("is 0 when the start is unknown", () => {
+    expect(matchDurationMs(1000, null)).toBe(0);
+    expect(matchDurationMs(1000, undefined)).toBe(0);
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  MAX_DIFFICULTY,
+  MIN_DIFFICULTY,
+  difficultyForRating,
+  pickPuzzleId,
+} from "../src/puzzle_selection";
+import { Puzzle } from "../src/puzzles";
+
+const puzzle = (id: string, difficulty: number): Puzzle => ({
+  id,
+  pack: id.split(":")[0],
+  difficulty,
+  enabled: true,
+  progressTotal: 100,
+});
+
+// Always picks the first candidate
+const first = (): number => 0;
+
+describe("difficultyForRating", () => {
+  it("maps low ratings to the easiest tier", () => {
+    expect(difficultyForRating(0)).toBe(MIN_DIFFICULTY);
+    expect(difficultyForRating(999)).toBe(MIN_DIFFICULTY);
+  });
+
+  it("starts a tier at its threshold", () => {
+    expect(difficultyForRating(1000)).toBe(2);
+    expect(difficultyForRating(1149)).toBe(2);
+    expect(difficultyForRating(1150)).toBe(3);
+    expect(difficultyForRating(1300)).toBe(4);
+  });
+
+  it("caps high ratings at the hardest tier", () => {
+    expect(difficultyForRating(1500)).toBe(MAX_DIFFICULTY);
+    expect(difficultyForRating(3000)).toBe(MAX_DIFFICULTY);
+  });
+});
+
+describe("pickPuzzleId", () => {
+  const catalog = [
+    puzzle("cls:1", 1),
+    puzzle("cls:2", 2),
+    puzzle("cls:3", 3),
+    puzzle("cls:3b", 3),
+    puzzle("cls:5", 5),
+  ];
+
+  it("picks from the tier of the average rating", () => {
+    // Average 1200 is tier 3
+    expect(pickPuzzleId(catalog, new Set(), [1100, 1300], first)).toBe("cls:3");
+  });
+
+  it("uses the random source among candidates", () => {
+    expect(pickPuzzleId(catalog, new Set(), [1200], () => 0.99)).toBe("cls:3b");
+  });
+
+  it("skips puzzles the players played recently", () => {
+    expect(pickPuzzleId(catalog, new Set(["cls:3"]), [1200], first)).toBe(
+      "cls:3b"
+    );
+  });
+
+  it("widens to the nearest tier when the target tier is used up", () => {
+    const recent = new Set(["cls:3", "cls:3b"]);
+    // Tier 2 is the closest one with puzzles left
+    expect(pickPuzzleId(catalog, recent, [1200], first)).toBe("cls:2");
+  });
+
+  it("reaches the far end of the difficulty range", () => {
+    expect(pickPuzzleId([puzzle("cls:5", 5)], new Set(), [0], first)).toBe(
+      "cls:5"
+    );
+  });
+
+  it("ignores recency when every puzzle was played", () => {
+    const recent = new Set(catalog.map((p) => p.id));
+    expect(pickPuzzleId(catalog, recent, [1200], first)).toBe("cls:3");
+  });
+
+  it("treats no ratings as the lowest tier", () => {
+    expect(pickPuzzleId(catalog, new Set(), [], first)).toBe("cls:1");
+  });
+});
@@ -0,0 +1,42 @@
+import * as admin from "firebase-admin";
+import { SchemaError, invalidPlayerStates, parseMatch } from "../src/schema";
+
+const match = (playerStates: admin.firestore.DocumentData) => ({
+  players: ["alice", "bob"],
+  lobby_size: 2,
+  start_at: admin.firestore.Timestamp.fromMillis(1000),
+  puzzle_id: "cls:20",
+  player_states: playerStates,
+  schema_version: 1,
+});
+
+describe("parseMatch", () => {
+  it("leaves out a malformed player state and keeps the others", () => {
+    const parsed = parseMatch(
+      match({ alice: { progress: 40 }, bob: { progress: -1 } })
+    );
+    expect(parsed.player_states).toEqual({ alice: { progress: 40 } });
+  });
+
+  it("still rejects a malformed match", () => {
+    expect(() => parseMatch({ ...match({}), players: [] })).toThrow(
+      SchemaError
+    );
+  });
+});
+
+describe("invalidPlayerStates", () => {
+  it("reports the malformed entries by player", () => {
+    const invalid = invalidPlayerStates(
+      match({ alice: { username: "alice" }, bob: { progress: -1 } })
+    );
+    expect([...invalid.keys()]).toEqual(["bob"]);
+    expect(invalid.get("bob")?.field).toBe("player_states.bob.progress");
+  });
+
+  it("reports an entry that isn't a map", () => {
+    expect([...invalidPlayerStates(match({ bob: "ready" })).keys()]).toEqual([
+      "bob",
+    ]);
+  });
+});